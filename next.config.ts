@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // tesseract.js starts its worker from files in its own package, so it can't be bundled
+  serverExternalPackages: ['tesseract.js'],
 };
 
 export default nextConfig;
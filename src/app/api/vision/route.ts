@@ -1,94 +1,145 @@
-import { NextResponse } from 'next/server';
-import vision from '@google-cloud/vision';
-
-// Create a client
-const client = new vision.ImageAnnotatorClient({
-  keyFilename: 'config/google/vision-credentials.json',
-});
-
-// Simple in-memory counter (resets on server restart)
-let dailyRequests = 0;
-let monthlyRequests = 0;
-let lastReset = new Date();
-
-// Constants
-const DAILY_LIMIT = 100;
-const MONTHLY_LIMIT = 1000; // Free tier limit
-
-function resetCountersIfNeeded() {
-  const now = new Date();
-  
-  // Reset daily counter if it's a new day
-  if (now.getDate() !== lastReset.getDate()) {
-    dailyRequests = 0;
-  }
-  
-  // Reset monthly counter if it's a new month
-  if (now.getMonth() !== lastReset.getMonth()) {
-    monthlyRequests = 0;
+import { NextRequest, NextResponse } from 'next/server';
+import { VISION_BATCH_SIZE, type OcrMode, type VisionBatchResponse, type VisionResponse } from '@/lib/ocr';
+import { getOcrProvider, OcrConfigurationError, type OcrResult } from '@/lib/ocr-providers';
+import { getQuotaStatus, recordUsage, type QuotaKeys, type QuotaStatus } from '@/lib/vision-quota';
+
+// Quotas are counted per browser, which is identified by this cookie
+const CLIENT_COOKIE = 'cozy-client-id';
+const CLIENT_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// Remove the data URL prefix to get just the base64 data
+const decodeImage = (image: string) => Buffer.from(image.replace(/^data:image\/\w+;base64,/, ''), 'base64');
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The address the request came from, as the proxy in front of the app reports it
+const clientIp = (request: NextRequest) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || null;
+
+// Only ids this route could have issued are accepted, so a cookie can't name another quota record
+function clientIdentity(request: NextRequest) {
+  const existing = request.cookies.get(CLIENT_COOKIE)?.value;
+  const ip = clientIp(request);
+  return existing && UUID.test(existing)
+    ? { clientId: existing, ip, isNew: false }
+    : { clientId: crypto.randomUUID(), ip, isNew: true };
+}
+
+function withClientCookie<T>(response: NextResponse<T>, { clientId, isNew }: ReturnType<typeof clientIdentity>) {
+  if (isNew) {
+    response.cookies.set(CLIENT_COOKIE, clientId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      path: '/',
+      maxAge: CLIENT_COOKIE_MAX_AGE
+    });
   }
-  
-  lastReset = now;
+  return response;
 }
 
-export async function POST(request: Request) {
+// Counts a request that has been read. A failed write only loses the count:
+// the text is still sent back, with the usage as it would have been, but
+// nothing more is read until counting works again.
+async function countRequest(keys: QuotaKeys, { usage }: QuotaStatus): Promise<QuotaStatus> {
   try {
-    resetCountersIfNeeded();
+    return await recordUsage(keys);
+  } catch (error) {
+    console.error('Recording vision usage failed:', error);
+    return {
+      usage: { ...usage, daily: usage.daily + 1, monthly: usage.monthly + 1 },
+      exceeded: 'Usage could not be recorded. Please try again later.'
+    };
+  }
+}
 
-    // Check limits
-    if (dailyRequests >= DAILY_LIMIT) {
-      return NextResponse.json(
-        { error: 'Daily usage limit reached. Please try again tomorrow.' },
-        { status: 429 }
-      );
-    }
+/**
+ * Reads a batch one image at a time, each counted against the quota. An image
+ * that fails, or that the quota no longer allows, gets an error of its own
+ * while the rest of the batch carries on.
+ */
+async function recognizeBatch(keys: QuotaKeys, images: string[], mode: OcrMode): Promise<VisionBatchResponse> {
+  const provider = getOcrProvider();
+  const results: VisionBatchResponse['results'] = [];
+  let status = await getQuotaStatus(keys);
 
-    if (monthlyRequests >= MONTHLY_LIMIT) {
-      return NextResponse.json(
-        { error: 'Monthly free tier limit reached.' },
-        { status: 429 }
-      );
+  for (const image of images) {
+    if (status.exceeded) {
+      results.push({ text: '', error: status.exceeded });
+      continue;
     }
+    let result: OcrResult;
+    try {
+      result = await provider.recognize(decodeImage(image), mode);
+    } catch (error) {
+      console.error('Vision API Error:', error);
+      results.push({ text: '', error: 'Failed to process image' });
+      continue;
+    }
+    // Exactly one result per image, since the caller matches them up by position
+    results.push(result);
+    status = await countRequest(keys, status);
+  }
 
-    const { image } = await request.json();
-    
-    // Remove the data URL prefix to get just the base64 data
-    const base64Image = image.replace(/^data:image\/\w+;base64,/, '');
-    
-    // Perform text detection
-    const [result] = await client.textDetection({
-      image: {
-        content: base64Image
-      }
-    });
+  return { results, provider: provider.name, usage: status.usage };
+}
 
-    // Increment counters
-    dailyRequests++;
-    monthlyRequests++;
+// The caller's usage so far, for showing before the first extraction
+export async function GET(request: NextRequest) {
+  const identity = clientIdentity(request);
+  try {
+    const { usage } = await getQuotaStatus(identity);
+    return withClientCookie(NextResponse.json({ usage }), identity);
+  } catch (error) {
+    console.error('Vision usage error:', error);
+    return NextResponse.json({ error: 'Failed to read usage' }, { status: 500 });
+  }
+}
 
-    const detections = result.textAnnotations;
-    
-    if (!detections || detections.length === 0) {
-      return NextResponse.json({ text: '' });
+export async function POST(request: NextRequest) {
+  const identity = clientIdentity(request);
+  try {
+    // Check limits
+    const status = await getQuotaStatus(identity);
+    if (status.exceeded) {
+      return withClientCookie(NextResponse.json({ error: status.exceeded, usage: status.usage }, { status: 429 }), identity);
     }
 
-    // The first annotation contains the entire text
-    const extractedText = detections[0].description;
+    const { image, images, mode = 'text' }: { image?: string; images?: string[]; mode?: OcrMode } = await request.json();
 
-    return NextResponse.json({ 
-      text: extractedText,
-      usage: {
-        daily: dailyRequests,
-        monthly: monthlyRequests,
-        dailyLimit: DAILY_LIMIT,
-        monthlyLimit: MONTHLY_LIMIT
+    // The engine is chosen by OCR_PROVIDER: google (the default), tesseract or fake
+    const provider = getOcrProvider();
+
+    if (images) {
+      if (images.length === 0 || images.length > VISION_BATCH_SIZE) {
+        return withClientCookie(
+          NextResponse.json({ error: `Send between 1 and ${VISION_BATCH_SIZE} images at a time.` }, { status: 400 }),
+          identity
+        );
       }
-    });
+      return withClientCookie(
+        NextResponse.json<VisionBatchResponse>(await recognizeBatch(identity, images, mode)),
+        identity
+      );
+    }
+
+    if (!image) {
+      return withClientCookie(NextResponse.json({ error: 'No image was sent.' }, { status: 400 }), identity);
+    }
+    const result = await provider.recognize(decodeImage(image), mode);
+
+    return withClientCookie(NextResponse.json<VisionResponse>({
+      ...result,
+      provider: provider.name,
+      usage: (await countRequest(identity, status)).usage
+    }), identity);
   } catch (error) {
+    if (error instanceof OcrConfigurationError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
     console.error('Vision API Error:', error);
     return NextResponse.json(
       { error: 'Failed to process image' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
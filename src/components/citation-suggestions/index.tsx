@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import CopyButton from '@/components/copy-button';
+import { getSourceTypeFields } from '@/components/research-organizer/bib-entry';
+import { parseNames } from '@/components/research-organizer/names';
+import type { CitationSuggestions as Suggestions } from '@/components/research-organizer/title-page';
+import type { BibEntry, BibEntryKey, Contributor } from '@/components/research-organizer/types';
+
+interface CitationSuggestionsProps {
+  suggestions: Suggestions;
+  isbn: string | null;
+  // The form as it is now, so filled-in fields aren't overwritten unasked
+  bibEntry: BibEntry;
+  onApply: (next: BibEntry) => void;
+  onCancel: () => void;
+}
+
+interface SuggestionRow {
+  key: Exclude<BibEntryKey, 'sourceType'>;
+  label: string;
+  value: string;
+  current: string;
+  checked: boolean;
+}
+
+// Names as one editable line, in the "Family, Given; Family, Given" form parseNames reads back
+const namesToText = (contributors: Contributor[]) =>
+  contributors
+    .map(({ given, family, corporate }) => corporate ? `{${family}}` : given ? `${family}, ${given}` : family)
+    .join('; ');
+
+const fieldText = (value: string | Contributor[]) => Array.isArray(value) ? namesToText(value) : value;
+
+/**
+ * Lists the bibliography fields read off a title or copyright page, each
+ * editable and ticked to be filled in. Suggestions for fields that already
+ * have a value start unticked, with the current value shown beside them.
+ */
+const CitationSuggestions: React.FC<CitationSuggestionsProps> = ({ suggestions, isbn, bibEntry, onApply, onCancel }) => {
+  const [rows, setRows] = useState<SuggestionRow[]>(() =>
+    getSourceTypeFields(bibEntry.sourceType).flatMap(({ key, label }): SuggestionRow[] => {
+      if (key === 'sourceType') return [];
+      const suggested = suggestions[key];
+      if (suggested === undefined) return [];
+      const current = fieldText(bibEntry[key]);
+      return [{ key, label, value: fieldText(suggested), current, checked: !current.trim() }];
+    }));
+
+  const updateRow = (key: SuggestionRow['key'], changes: Partial<SuggestionRow>) => {
+    setRows(rows.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const chosen = rows.filter(row => row.checked && row.value.trim());
+
+  const apply = () => {
+    const next = { ...bibEntry };
+    chosen.forEach(({ key, value }) => {
+      if (key === 'authors' || key === 'editors') {
+        next[key] = parseNames(value);
+      } else {
+        next[key] = value.trim();
+      }
+    });
+    onApply(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No citation details were recognized for this source type. Try a clearer photo of the title or copyright page.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {rows.map(row => (
+            <li key={row.key} className="flex items-start gap-2">
+              <Checkbox
+                checked={row.checked}
+                onCheckedChange={(checked) => updateRow(row.key, { checked: checked === true })}
+                aria-label={`Fill in ${row.label}`}
+                className="mt-2.5"
+              />
+              <label className="flex-1 space-y-1">
+                <span className="text-sm text-gray-600">{row.label}</span>
+                <Input
+                  value={row.value}
+                  onChange={(e) => updateRow(row.key, { value: e.target.value })}
+                  className="bg-white border-[#D4BFA0]"
+                />
+                {row.current.trim() && (
+                  <span className="block text-xs text-gray-500">Currently: {row.current}</span>
+                )}
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isbn && (
+        <div className="flex items-center gap-2 text-sm text-[#4A2B1B]">
+          <span>ISBN {isbn}</span>
+          <CopyButton text={isbn} label="Copy ISBN" />
+          <span className="text-xs text-gray-500">There is no ISBN field; it is shown for looking the book up.</span>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onCancel}>
+          <span className="text-[#4A2B1B]">Cancel</span>
+        </Button>
+        <Button onClick={apply} disabled={chosen.length === 0}>
+          <span className="text-white">
+            Fill {chosen.length} {chosen.length === 1 ? 'Field' : 'Fields'}
+          </span>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CitationSuggestions;
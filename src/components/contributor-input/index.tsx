@@ -0,0 +1,104 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, PlusCircle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { createContributor } from '@/components/research-organizer/names';
+import type { Contributor } from '@/components/research-organizer/types';
+
+interface ContributorInputProps {
+  label: string;
+  value: Contributor[];
+  onChange: (contributors: Contributor[]) => void;
+  required?: boolean;
+}
+
+const ContributorInput: React.FC<ContributorInputProps> = ({ label, value, onChange, required }) => {
+  // Always show at least one row so there is somewhere to type
+  const rows = value.length > 0 ? value : [createContributor()];
+
+  const updateRow = (index: number, changes: Partial<Contributor>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const moveRow = (index: number, direction: 'up' | 'down') => {
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= rows.length) return;
+    const next = [...rows];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeRow = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2 md:col-span-2">
+      <label className="text-sm text-gray-600">
+        {label}
+        {required && <span className="text-red-500">*</span>}
+      </label>
+      {rows.map((row, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          {row.corporate ? (
+            <Input
+              placeholder="Organization name"
+              value={row.family}
+              onChange={(e) => updateRow(index, { family: e.target.value })}
+              className="bg-white border-[#D4BFA0] flex-1 min-w-48"
+            />
+          ) : (
+            <>
+              <Input
+                placeholder="Given name(s)"
+                value={row.given}
+                onChange={(e) => updateRow(index, { given: e.target.value })}
+                className="bg-white border-[#D4BFA0] flex-1 min-w-32"
+              />
+              <Input
+                placeholder="Family name"
+                value={row.family}
+                onChange={(e) => updateRow(index, { family: e.target.value })}
+                className="bg-white border-[#D4BFA0] flex-1 min-w-32"
+              />
+            </>
+          )}
+          <label className="flex items-center space-x-1 text-xs text-gray-600">
+            <Checkbox
+              checked={row.corporate}
+              onCheckedChange={(checked) => updateRow(index, { corporate: checked === true, given: '' })}
+            />
+            <span>Organization</span>
+          </label>
+          <Button variant="ghost" size="sm" onClick={() => moveRow(index, 'up')} disabled={index === 0} className="p-1">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => moveRow(index, 'down')}
+            disabled={index === rows.length - 1}
+            className="p-1"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeRow(index)}
+            className="p-1 text-red-500 hover:text-red-700"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="ghost" size="sm" onClick={() => onChange([...rows, createContributor()])}>
+        <PlusCircle className="mr-2 h-4 w-4" />
+        Add {label.replace(/\(s\)$/, '').toLowerCase()}
+      </Button>
+    </div>
+  );
+};
+
+export default ContributorInput;
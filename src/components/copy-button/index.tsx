@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface CopyButtonProps {
+  text: string;
+  label: string;
+}
+
+// How long the check mark stays after a successful copy
+const COPIED_MS = 1500;
+
+const CopyButton: React.FC<CopyButtonProps> = ({ text, label }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleCopy} title={label} aria-label={label} className="p-1 shrink-0">
+      {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+    </Button>
+  );
+};
+
+export default CopyButton;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ENTRY_KINDS,
+  ENTRY_KIND_LABELS,
+  LOCATOR_LABELS,
+  LOCATOR_TYPES
+} from '@/components/research-organizer/entry-kinds';
+import type { EntryKind, Locator, LocatorType, ResearchEntry } from '@/components/research-organizer/types';
+
+export type EntryDetails = Pick<ResearchEntry, 'kind' | 'locator'>;
+
+interface EntryKindFieldsProps {
+  value: EntryDetails;
+  onChange: (details: EntryDetails) => void;
+}
+
+// An entry without a locator still shows an empty page field to fill in
+const EMPTY_LOCATOR: Locator = { type: 'page', value: '' };
+
+// Whether a note is a quote, paraphrase or summary, and where in the source it comes from
+const EntryKindFields: React.FC<EntryKindFieldsProps> = ({ value, onChange }) => {
+  const locator = value.locator ?? EMPTY_LOCATOR;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Select value={value.kind} onValueChange={(kind: EntryKind) => onChange({ ...value, kind })}>
+        <SelectTrigger className="w-40 bg-white" aria-label="Kind of note">
+          <SelectValue placeholder="Kind of note" />
+        </SelectTrigger>
+        <SelectContent className="bg-white border shadow-lg rounded-md overflow-hidden z-50">
+          {ENTRY_KINDS.map(kind => (
+            <SelectItem key={kind} value={kind}>{ENTRY_KIND_LABELS[kind]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={locator.type}
+        onValueChange={(type: LocatorType) => onChange({ ...value, locator: { ...locator, type } })}
+      >
+        <SelectTrigger className="w-36 bg-white" aria-label="Locator type">
+          <SelectValue placeholder="Locator" />
+        </SelectTrigger>
+        <SelectContent className="bg-white border shadow-lg rounded-md overflow-hidden z-50">
+          {LOCATOR_TYPES.map(type => (
+            <SelectItem key={type} value={type}>{LOCATOR_LABELS[type].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={locator.value}
+        onChange={(e) => onChange({ ...value, locator: { ...locator, value: e.target.value } })}
+        placeholder={`${LOCATOR_LABELS[locator.type].label}, e.g. ${LOCATOR_LABELS[locator.type].placeholder}`}
+        aria-label={LOCATOR_LABELS[locator.type].label}
+        className="bg-white border-[#D4BFA0] w-48"
+      />
+    </div>
+  );
+};
+
+export default EntryKindFields;
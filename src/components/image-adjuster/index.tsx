@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, RotateCw, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { detectSkew, loadImage, preprocessImage } from '@/lib/image';
+import {
+  DEFAULT_ADJUSTMENTS,
+  defaultCorners,
+  MAX_FINE_ANGLE,
+  otsuThreshold,
+  type ImageAdjustments,
+  type Quad
+} from '@/lib/image-processing';
+
+interface ImageAdjusterProps {
+  image: string;
+  onApply: (image: string) => void;
+  onCancel: () => void;
+}
+
+// The preview is drawn this many pixels along its longer side, to keep the sliders quick
+const PREVIEW_SIZE = 800;
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+/**
+ * Straightens and cleans up a photo before it is read: quarter and fine
+ * rotation, deskewing, perspective correction from four dragged corners, and
+ * grayscale, threshold and contrast. The preview leaves out the perspective
+ * correction so the corners can be placed on it.
+ */
+const ImageAdjuster: React.FC<ImageAdjusterProps> = ({ image, onApply, onCancel }) => {
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [draggingCorner, setDraggingCorner] = useState<number | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image)
+      .then(loaded => {
+        if (!cancelled) setSource(loaded);
+      })
+      .catch(error => console.error('Loading image failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  useEffect(() => {
+    if (!source) return;
+    setPreview(preprocessImage(source, { ...adjustments, corners: null }, PREVIEW_SIZE).toDataURL('image/jpeg'));
+  }, [source, adjustments]);
+
+  const update = (changes: Partial<ImageAdjustments>) => setAdjustments({ ...adjustments, ...changes });
+
+  // Corners are placed on the rotated image, so a quarter turn starts them over
+  const turn = (direction: 1 | -1) =>
+    update({ quarterTurns: (adjustments.quarterTurns + direction + 4) % 4, corners: null });
+
+  const deskew = () => {
+    if (source) update({ angle: detectSkew(source, adjustments.quarterTurns) });
+  };
+
+  const toggleThreshold = (on: boolean) => {
+    if (!source) return;
+    const sample = preprocessImage(source, { ...adjustments, threshold: null, corners: null }, PREVIEW_SIZE);
+    const pixels = sample.getContext('2d')?.getImageData(0, 0, sample.width, sample.height);
+    update({ threshold: on ? (pixels ? otsuThreshold(pixels) : 128) : null });
+  };
+
+  const moveCorner = (event: React.PointerEvent) => {
+    if (draggingCorner === null || !adjustments.corners || !frameRef.current) return;
+    const frame = frameRef.current.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const corners = adjustments.corners.map((corner, index) => index === draggingCorner
+      ? { x: clamp((event.clientX - frame.left) / frame.width), y: clamp((event.clientY - frame.top) / frame.height) }
+      : corner) as Quad;
+    update({ corners });
+  };
+
+  const apply = () => {
+    if (!source) return;
+    setIsApplying(true);
+    // Let the button show its busy state before the full-size image is worked through
+    setTimeout(() => {
+      try {
+        onApply(preprocessImage(source, adjustments).toDataURL('image/jpeg'));
+      } catch (error) {
+        console.error('Adjusting image failed:', error);
+        alert('Unable to adjust this image. Please try different corners.');
+      } finally {
+        setIsApplying(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center">
+        {preview ? (
+          <div
+            ref={frameRef}
+            className="relative inline-block touch-none"
+            onPointerMove={moveCorner}
+            onPointerUp={() => setDraggingCorner(null)}
+          >
+            {/* A data URL, which next/image has nothing to optimize in */}
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={preview} alt="Adjusted preview" className="max-h-[400px] max-w-full block select-none" draggable={false} />
+            {adjustments.corners && (
+              <>
+                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                  <polygon
+                    points={adjustments.corners.map(corner => `${corner.x * 100},${corner.y * 100}`).join(' ')}
+                    fill="rgba(139, 89, 62, 0.15)"
+                    stroke="#8B593E"
+                    strokeWidth="0.5"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+                {adjustments.corners.map((corner, index) => (
+                  <button
+                    key={CORNER_LABELS[index]}
+                    type="button"
+                    aria-label={`${CORNER_LABELS[index]} corner`}
+                    className="absolute h-5 w-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-[#8B593E] shadow cursor-move"
+                    style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                    onPointerDown={(event) => {
+                      event.preventDefault();
+                      // Keeps the drag going when the pointer strays past the image's edge
+                      event.currentTarget.setPointerCapture(event.pointerId);
+                      setDraggingCorner(index);
+                    }}
+                  />
+                ))}
+              </>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Loading image...</p>
+        )}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 text-sm text-[#4A2B1B]">
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => turn(-1)} aria-label="Rotate left">
+              <RotateCcw className="h-4 w-4 text-[#4A2B1B]" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => turn(1)} aria-label="Rotate right">
+              <RotateCw className="h-4 w-4 text-[#4A2B1B]" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={deskew} disabled={!source}>
+              <Wand2 className="h-4 w-4 mr-1 text-[#4A2B1B]" />
+              <span className="text-[#4A2B1B]">Auto Deskew</span>
+            </Button>
+          </div>
+          <label className="block">
+            <span className="flex justify-between">
+              <span>Fine angle</span>
+              <span className="text-gray-500">{adjustments.angle.toFixed(1)}°</span>
+            </span>
+            <input
+              type="range"
+              min={-MAX_FINE_ANGLE}
+              max={MAX_FINE_ANGLE}
+              step={0.1}
+              value={adjustments.angle}
+              onChange={(e) => update({ angle: Number(e.target.value) })}
+              className="w-full accent-[#8B593E]"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <Checkbox
+              checked={adjustments.corners !== null}
+              onCheckedChange={(checked) => update({ corners: checked === true ? defaultCorners() : null })}
+            />
+            <span>Correct perspective (drag the corners to the page&apos;s corners)</span>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2">
+            <Checkbox
+              checked={adjustments.grayscale}
+              onCheckedChange={(checked) => update({ grayscale: checked === true })}
+            />
+            <span>Grayscale</span>
+          </label>
+          <label className="block">
+            <span className="flex justify-between">
+              <span>Contrast</span>
+              <span className="text-gray-500">{adjustments.contrast}</span>
+            </span>
+            <input
+              type="range"
+              min={-100}
+              max={100}
+              step={1}
+              value={adjustments.contrast}
+              onChange={(e) => update({ contrast: Number(e.target.value) })}
+              className="w-full accent-[#8B593E]"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <Checkbox
+              checked={adjustments.threshold !== null}
+              onCheckedChange={(checked) => toggleThreshold(checked === true)}
+            />
+            <span>Black and white</span>
+          </label>
+          {adjustments.threshold !== null && (
+            <label className="block">
+              <span className="flex justify-between">
+                <span>Threshold</span>
+                <span className="text-gray-500">{adjustments.threshold}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={255}
+                step={1}
+                value={adjustments.threshold}
+                onChange={(e) => update({ threshold: Number(e.target.value) })}
+                className="w-full accent-[#8B593E]"
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <Button variant="outline" onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)}>
+          <span className="text-[#4A2B1B]">Reset</span>
+        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={onCancel} disabled={isApplying}>
+            <span className="text-[#4A2B1B]">Cancel</span>
+          </Button>
+          <Button onClick={apply} disabled={!source || isApplying}>
+            <span className="text-white">{isApplying ? 'Applying...' : 'Apply'}</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAdjuster;
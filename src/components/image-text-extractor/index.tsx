@@ -1,7 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, Upload, X, Monitor, Flashlight } from 'lucide-react';
+import { Camera, Upload, X, Monitor, Flashlight, SlidersHorizontal } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import CitationSuggestions from '@/components/citation-suggestions';
+import ImageAdjuster from '@/components/image-adjuster';
+import OcrBatchQueue from '@/components/ocr-batch-queue';
+import OcrBlockPicker from '@/components/ocr-block-picker';
+import OcrReview from '@/components/ocr-review';
+import PdfPagePicker from '@/components/pdf-page-picker';
+import { parseTitlePage, type TitlePageScan } from '@/components/research-organizer/title-page';
+import type { BibEntry, ExtractedNote } from '@/components/research-organizer/types';
+import { cropImage } from '@/lib/image';
+import { wordsInBlocks, type OcrBlock, type OcrMode, type OcrWord, type VisionResponse, type VisionUsage } from '@/lib/ocr';
+import { createQueueItems, type OcrQueueItem } from '@/lib/ocr-queue';
 import ReactCrop, { type Crop } from 'react-image-crop';
 import 'react-image-crop/dist/ReactCrop.css';
 
@@ -13,9 +24,20 @@ interface ExtendedDisplayMediaStreamOptions extends DisplayMediaStreamOptions {
 }
 
 interface ImageTextExtractorProps {
-  onExtractedText: (text: string) => void;
+  // The locator is set for text read from a PDF, with the pages it came from
+  onExtractedText: (text: string, locator?: ExtractedNote['locator']) => void;
+  // Offered in the review, to swap the note being written for the recognized text
+  onReplaceText?: (text: string) => void;
+  // Offered for batches and PDFs, to add each image or page as a separate note
+  onExtractedNotes?: (notes: ExtractedNote[]) => void;
+  // With both, a scanned title or copyright page can fill in the bibliography
+  bibEntry?: BibEntry;
+  onFillBibEntry?: (next: BibEntry) => void;
 }
 
+// Scanning a citation reads plain text, then picks the bibliography fields out of it
+type ExtractorMode = OcrMode | 'citation';
+
 interface ExtendedMediaTrackCapabilities extends MediaTrackCapabilities {
   torch?: boolean;
 }
@@ -28,14 +50,35 @@ interface ExtendedMediaTrackConstraints extends MediaTrackConstraints {
   advanced?: TorchConstraintSet[];
 }
 
-const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText }) => {
+const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({
+  onExtractedText,
+  onReplaceText,
+  onExtractedNotes,
+  bibEntry,
+  onFillBibEntry
+}) => {
   const [image, setImage] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isCropping, setIsCropping] = useState(false);
+  // Rotating, straightening and cleaning up the image before it is read
+  const [isAdjusting, setIsAdjusting] = useState(false);
   const [videoStarted, setVideoStarted] = useState(false);
   const [cameraActive, setCameraActive] = useState(false);
   const [flashlightOn, setFlashlightOn] = useState(false);
   const [currentTrack, setCurrentTrack] = useState<MediaStreamTrack | null>(null);
+  const [mode, setMode] = useState<ExtractorMode>('text');
+  // Blocks found in document mode, waiting to be chosen
+  const [blocks, setBlocks] = useState<OcrBlock[] | null>(null);
+  // Every word recognized on the image, with the engine's confidence in it
+  const [words, setWords] = useState<OcrWord[]>([]);
+  // Text waiting to be checked before it goes into the notes
+  const [review, setReview] = useState<{ text: string; words: OcrWord[] } | null>(null);
+  // Bibliography fields read off a title page, waiting to be confirmed
+  const [citation, setCitation] = useState<TitlePageScan | null>(null);
+  const [usage, setUsage] = useState<VisionUsage | null>(null);
+  // Several uploaded images go into a queue instead
+  const [queue, setQueue] = useState<OcrQueueItem[]>([]);
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [crop, setCrop] = useState<Crop>({
     unit: 'px',
     x: 0,
@@ -44,10 +87,28 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
     height: 0
   });
 
+  const ocrMode: OcrMode = mode === 'citation' ? 'text' : mode;
+  const canScanCitation = bibEntry !== undefined && onFillBibEntry !== undefined;
+  const modes: [ExtractorMode, string][] = [
+    ['text', 'Plain text'],
+    ['document', 'Document layout'],
+    ...(canScanCitation ? [['citation', 'Scan citation'] as [ExtractorMode, string]] : [])
+  ];
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
 
+  // Show how much of the quota is left before the first extraction
+  useEffect(() => {
+    fetch('/api/vision')
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: { usage?: VisionUsage } | null) => {
+        if (data?.usage) setUsage(data.usage);
+      })
+      .catch(error => console.error('Loading usage failed:', error));
+  }, []);
+
   useEffect(() => {
     let stream: MediaStream | null = null;
 
@@ -121,36 +182,31 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
   const handleCrop = () => {
     if (!imageRef.current || !crop.width || !crop.height) return;
 
-    const canvas = document.createElement('canvas');
-    const scaleX = imageRef.current.naturalWidth / imageRef.current.width;
-    const scaleY = imageRef.current.naturalHeight / imageRef.current.height;
-
-    canvas.width = crop.width * scaleX;
-    canvas.height = crop.height * scaleY;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.drawImage(
-      imageRef.current,
-      crop.x * scaleX,
-      crop.y * scaleY,
-      crop.width * scaleX,
-      crop.height * scaleY,
-      0,
-      0,
-      crop.width * scaleX,
-      crop.height * scaleY
-    );
-
-    const croppedImage = canvas.toDataURL('image/jpeg');
+    const croppedImage = cropImage(imageRef.current, crop);
+    if (!croppedImage) return;
     setImage(croppedImage);
     setIsCropping(false);
     setCrop({ unit: 'px', x: 0, y: 0, width: 0, height: 0 });
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    const pdfs = files.filter(file => file.type === 'application/pdf');
+    if (pdfs.length > 0) {
+      event.target.value = '';
+      if (files.length > 1) {
+        alert('Please open PDFs one at a time, without images.');
+        return;
+      }
+      setPdfFile(pdfs[0]);
+      return;
+    }
+    if (files.length > 1) {
+      setQueue(await createQueueItems(files));
+      event.target.value = '';
+      return;
+    }
+    const file = files[0];
     if (file) {
       const reader = new FileReader();
       reader.onloadend = () => {
@@ -219,30 +275,49 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ image: imageData }),
+        body: JSON.stringify({ image: imageData, mode: ocrMode }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to process image');
+        const { error, usage: current }: { error?: string; usage?: VisionUsage } = await response.json().catch(() => ({}));
+        if (current) setUsage(current);
+        throw new Error(error || 'Failed to extract text from image. Please try again.');
       }
 
-      const { text } = await response.json();
+      const { text, blocks: found, words: recognized = [], usage: current }: VisionResponse = await response.json();
+      if (current) setUsage(current);
+      if (mode === 'citation' && bibEntry) {
+        setCitation(parseTitlePage(text, bibEntry.sourceType));
+        return;
+      }
+      // Keep the image up so the blocks can be picked out on it
+      if (mode === 'document' && found && found.length > 0) {
+        setBlocks(found);
+        setWords(recognized);
+        return;
+      }
       if (text) {
-        onExtractedText(text);
+        setReview({ text, words: recognized });
+        return;
       }
+      clearImage();
     } catch (error) {
       console.error('Processing failed:', error);
-      alert('Failed to extract text from image. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to extract text from image. Please try again.');
+      clearImage();
     } finally {
       setIsProcessing(false);
-      setIsCropping(false);
-      setImage(null);
     }
   };
 
   const clearImage = () => {
     setImage(null);
+    setBlocks(null);
+    setWords([]);
+    setReview(null);
+    setCitation(null);
     setIsCropping(false);
+    setIsAdjusting(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -255,7 +330,7 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
         <Button
           onClick={() => fileInputRef.current?.click()}
           className="flex items-center justify-center space-x-2 w-full sm:w-auto"
-          disabled={cameraActive || isProcessing || isCropping}
+          disabled={cameraActive || isProcessing || isCropping || queue.length > 0 || pdfFile !== null}
         >
           <Upload className="w-4 h-4" />
           <span className="text-white">Upload</span>
@@ -264,7 +339,7 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
         <Button
           onClick={handleCameraToggle}
           className="flex items-center justify-center space-x-2 w-full sm:w-auto"
-          disabled={image !== null || isProcessing}
+          disabled={image !== null || isProcessing || queue.length > 0 || pdfFile !== null}
         >
           <Camera className="w-4 h-4" />
           <span className="text-white">{cameraActive ? 'Stop' : 'Camera'}</span>
@@ -294,7 +369,7 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
           <Button
             onClick={captureScreenshot}
             className="flex items-center justify-center space-x-2 w-full sm:w-auto col-span-2 sm:col-span-1"
-            disabled={cameraActive || isProcessing || isCropping}
+            disabled={cameraActive || isProcessing || isCropping || queue.length > 0 || pdfFile !== null}
           >
             <Monitor className="w-4 h-4" />
             <span className="text-white">Screenshot</span>
@@ -302,9 +377,37 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
         )}
       </div>
 
+      <div className="flex items-center gap-2 text-sm text-[#4A2B1B]" role="radiogroup" aria-label="Recognition mode">
+        {modes.map(([value, label]) => (
+          <label key={value} className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="radio"
+              name="ocr-mode"
+              value={value}
+              checked={mode === value}
+              onChange={() => setMode(value)}
+              disabled={isProcessing || blocks !== null || review !== null || citation !== null}
+            />
+            {label}
+          </label>
+        ))}
+        <span className="text-xs text-gray-500">
+          {mode === 'document' && 'Pick columns, headers and footnotes separately'}
+          {mode === 'citation' && 'Photograph the title or copyright page'}
+        </span>
+        {usage && (
+          <span
+            className={`ml-auto text-xs ${usage.daily >= usage.dailyLimit || usage.monthly >= usage.monthlyLimit ? 'text-red-600' : 'text-gray-500'}`}
+          >
+            Extractions today {usage.daily}/{usage.dailyLimit} · this month {usage.monthly}/{usage.monthlyLimit}
+          </span>
+        )}
+      </div>
+
       <input
         type="file"
-        accept="image/*"
+        accept="image/*,application/pdf"
+        multiple
         className="hidden"
         ref={fileInputRef}
         onChange={handleFileUpload}
@@ -324,10 +427,86 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
         </Card>
       )}
 
+      {queue.length > 0 && (
+        <Card className="p-2">
+          <OcrBatchQueue
+            items={queue}
+            onItemsChange={setQueue}
+            mode={ocrMode}
+            onUsage={setUsage}
+            onInsert={onExtractedText}
+            onInsertSeparately={onExtractedNotes && (texts => onExtractedNotes(texts.map(text => ({ text, locator: null }))))}
+            onClose={() => setQueue([])}
+          />
+        </Card>
+      )}
+
+      {pdfFile && (
+        <Card className="p-2">
+          <PdfPagePicker
+            file={pdfFile}
+            mode={ocrMode}
+            onUsage={setUsage}
+            onInsert={onExtractedText}
+            onInsertSeparately={onExtractedNotes}
+            onClose={() => setPdfFile(null)}
+          />
+        </Card>
+      )}
+
       {image && (
         <Card className="p-2">
           <div className="relative">
-            {isCropping ? (
+            {citation && bibEntry && onFillBibEntry ? (
+              <div className="grid gap-2 md:grid-cols-2">
+                <div className="flex justify-center items-start">
+                  {/* A data URL, which next/image has nothing to optimize in */}
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={image} alt="Scanned page" className="max-h-[400px] max-w-full" />
+                </div>
+                <CitationSuggestions
+                  suggestions={citation.suggestions}
+                  isbn={citation.isbn}
+                  bibEntry={bibEntry}
+                  onApply={(next) => {
+                    onFillBibEntry(next);
+                    clearImage();
+                  }}
+                  onCancel={clearImage}
+                />
+              </div>
+            ) : review ? (
+              <OcrReview
+                image={image}
+                text={review.text}
+                words={review.words}
+                onInsert={(text) => {
+                  onExtractedText(text);
+                  clearImage();
+                }}
+                onReplace={onReplaceText && ((text) => {
+                  onReplaceText(text);
+                  clearImage();
+                })}
+                onCancel={clearImage}
+              />
+            ) : blocks ? (
+              <OcrBlockPicker
+                image={image}
+                blocks={blocks}
+                onInsert={(text, blockIds) => setReview({ text, words: wordsInBlocks(words, blocks, blockIds) })}
+                onCancel={clearImage}
+              />
+            ) : isAdjusting ? (
+              <ImageAdjuster
+                image={image}
+                onApply={(adjusted) => {
+                  setImage(adjusted);
+                  setIsAdjusting(false);
+                }}
+                onCancel={() => setIsAdjusting(false)}
+              />
+            ) : isCropping ? (
               <div>
                 <ReactCrop
                   crop={crop}
@@ -372,8 +551,12 @@ const ImageTextExtractor: React.FC<ImageTextExtractorProps> = ({ onExtractedText
                   <Button variant="outline" onClick={clearImage}>
                     <span className="text-[#4A2B1B]">Cancel</span>
                   </Button>
+                  <Button variant="outline" onClick={() => setIsAdjusting(true)} disabled={isProcessing}>
+                    <SlidersHorizontal className="w-4 h-4 mr-1 text-[#4A2B1B]" />
+                    <span className="text-[#4A2B1B]">Adjust</span>
+                  </Button>
                   <Button onClick={() => processImage(image)}>
-                    <span className="text-white">Extract Text</span>
+                    <span className="text-white">{mode === 'citation' ? 'Scan Citation' : 'Extract Text'}</span>
                   </Button>
                 </div>
               </>
@@ -0,0 +1,309 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, Check, Crop as CropIcon, Loader2, PlusCircle, RotateCw, Trash2 } from 'lucide-react';
+import ReactCrop, { type Crop } from 'react-image-crop';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { cropImage } from '@/lib/image';
+import { requestVisionBatch, VISION_BATCH_SIZE, VisionRequestError, type OcrMode, type VisionUsage } from '@/lib/ocr';
+import {
+  chunkIds,
+  createQueueItems,
+  moveQueueItem,
+  queueProgress,
+  queueResults,
+  updateQueueItem,
+  type OcrQueueItem
+} from '@/lib/ocr-queue';
+
+interface OcrBatchQueueProps {
+  items: OcrQueueItem[];
+  onItemsChange: React.Dispatch<React.SetStateAction<OcrQueueItem[]>>;
+  mode: OcrMode;
+  onUsage: (usage: VisionUsage) => void;
+  // Inserts the combined text as one note
+  onInsert: (text: string) => void;
+  // Adds each image's text as a note of its own; without it, results can only be combined
+  onInsertSeparately?: (texts: string[]) => void;
+  onClose: () => void;
+}
+
+const EMPTY_CROP: Crop = { unit: 'px', x: 0, y: 0, width: 0, height: 0 };
+
+const STATUS_LABELS: Record<OcrQueueItem['status'], string> = {
+  pending: 'Waiting',
+  processing: 'Reading...',
+  done: 'Done',
+  error: 'Failed'
+};
+
+/**
+ * A queue of images read in batches of VISION_BATCH_SIZE per request. Each
+ * image can be cropped, moved, removed or retried on its own; the results are
+ * kept in queue order.
+ */
+const OcrBatchQueue: React.FC<OcrBatchQueueProps> = ({
+  items,
+  onItemsChange,
+  mode,
+  onUsage,
+  onInsert,
+  onInsertSeparately,
+  onClose
+}) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  const [crop, setCrop] = useState<Crop>(EMPTY_CROP);
+  const [combine, setCombine] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cropImageRef = useRef<HTMLImageElement>(null);
+
+  const progress = queueProgress(items);
+  const results = queueResults(items);
+  const pendingIds = items.filter(item => item.status === 'pending').map(item => item.id);
+  const failedIds = items.filter(item => item.status === 'error').map(item => item.id);
+
+  const markItems = (ids: string[], changes: Partial<OcrQueueItem>) => {
+    onItemsChange(current => ids.reduce((next, id) => updateQueueItem(next, id, changes), current));
+  };
+
+  // Reads the given items in order, a batch per request; a failed request stops the rest
+  const run = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    // The images are fixed while the queue runs, since cropping and removing are disabled
+    const images = new Map(items.map(item => [item.id, item.image]));
+    setIsRunning(true);
+    markItems(ids, { status: 'pending', error: null });
+    try {
+      for (const chunk of chunkIds(ids, VISION_BATCH_SIZE)) {
+        markItems(chunk, { status: 'processing' });
+        try {
+          const { results: batchResults, usage } = await requestVisionBatch(chunk.map(id => images.get(id) ?? ''), mode);
+          onUsage(usage);
+          onItemsChange(current => chunk.reduce((next, id, index) => {
+            const result = batchResults[index];
+            return updateQueueItem(next, id, result && !result.error
+              ? { status: 'done', text: result.text, error: null }
+              : { status: 'error', error: result?.error || 'No result for this image.' });
+          }, current));
+        } catch (error) {
+          console.error('Batch processing failed:', error);
+          if (error instanceof VisionRequestError && error.usage) onUsage(error.usage);
+          markItems(chunk, {
+            status: 'error',
+            error: error instanceof VisionRequestError ? error.message : 'Failed to extract text from image.'
+          });
+          break;
+        }
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleAddFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    const added = await createQueueItems(files);
+    onItemsChange(current => [...current, ...added]);
+  };
+
+  const startCropping = (itemId: string) => {
+    setCroppingId(itemId);
+    setCrop(EMPTY_CROP);
+  };
+
+  // A cropped image is read again, whatever it gave before
+  const applyCrop = () => {
+    if (!croppingId || !cropImageRef.current || !crop.width || !crop.height) return;
+    const cropped = cropImage(cropImageRef.current, crop);
+    if (cropped) {
+      onItemsChange(current => updateQueueItem(current, croppingId, { image: cropped, status: 'pending', text: '', error: null }));
+    }
+    setCroppingId(null);
+  };
+
+  const removeItem = (itemId: string) => {
+    onItemsChange(current => current.filter(item => item.id !== itemId));
+    if (croppingId === itemId) setCroppingId(null);
+  };
+
+  const insertResults = () => {
+    if (combine || !onInsertSeparately) {
+      onInsert(results.join('\n\n'));
+    } else {
+      onInsertSeparately(results);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex justify-between text-sm text-[#4A2B1B]">
+          <span>{progress.total} {progress.total === 1 ? 'image' : 'images'} in the queue</span>
+          <span>
+            {progress.done} done{progress.failed > 0 && `, ${progress.failed} failed`}
+          </span>
+        </div>
+        <div
+          className="h-2 rounded bg-[#F5E6D3] overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={progress.total}
+          aria-valuenow={progress.done}
+        >
+          <div
+            className="h-full bg-[#8B593E] transition-all"
+            style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+          />
+        </div>
+      </div>
+
+      <ol className="space-y-2">
+        {items.map((item, index) => (
+          <li key={item.id} className="border border-[#D4BFA0] rounded p-2 bg-white">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 w-5 text-right">{index + 1}.</span>
+              {/* A data URL, which next/image has nothing to optimize in */}
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={item.image} alt={item.name} className="h-12 w-12 object-cover rounded border border-[#D4BFA0]" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-[#4A2B1B] truncate" title={item.name}>{item.name}</p>
+                <p
+                  className={`flex items-center gap-1 text-xs ${item.status === 'error' ? 'text-red-600' : 'text-gray-500'}`}
+                >
+                  {item.status === 'processing' && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {item.status === 'done' && <Check className="h-3 w-3 text-green-600" />}
+                  {item.status === 'error' && <AlertCircle className="h-3 w-3" />}
+                  {STATUS_LABELS[item.status]}
+                  {item.error && `: ${item.error}`}
+                </p>
+              </div>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  onClick={() => onItemsChange(current => moveQueueItem(current, item.id, 'up'))}
+                  disabled={index === 0}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  onClick={() => onItemsChange(current => moveQueueItem(current, item.id, 'down'))}
+                  disabled={index === items.length - 1}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  onClick={() => startCropping(item.id)}
+                  disabled={isRunning}
+                  aria-label="Crop"
+                >
+                  <CropIcon className="h-4 w-4" />
+                </Button>
+                {item.status === 'error' && (
+                  <Button variant="ghost" size="sm" className="p-1" onClick={() => run([item.id])} disabled={isRunning} aria-label="Retry">
+                    <RotateCw className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  onClick={() => removeItem(item.id)}
+                  disabled={isRunning}
+                  aria-label="Remove"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {croppingId === item.id && (
+              <div className="mt-2">
+                <ReactCrop crop={crop} onChange={(c) => setCrop(c)} aspect={undefined}>
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img ref={cropImageRef} src={item.image} alt="To crop" className="max-h-[400px] w-full object-contain" />
+                </ReactCrop>
+                <div className="flex justify-end space-x-2 mt-2">
+                  <Button variant="outline" size="sm" onClick={() => setCroppingId(null)}>
+                    <span className="text-[#4A2B1B]">Cancel</span>
+                  </Button>
+                  <Button size="sm" onClick={applyCrop} disabled={!crop.width || !crop.height}>
+                    <span className="text-white">Crop</span>
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {item.status === 'done' && (
+              <p className="mt-2 text-xs text-gray-600 whitespace-pre-wrap line-clamp-3">
+                {item.text.trim() || 'No text found.'}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <input
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        ref={fileInputRef}
+        onChange={handleAddFiles}
+      />
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+            <PlusCircle className="h-4 w-4 mr-1 text-[#4A2B1B]" />
+            <span className="text-[#4A2B1B]">Add Images</span>
+          </Button>
+          {failedIds.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => run(failedIds)} disabled={isRunning}>
+              <RotateCw className="h-4 w-4 mr-1 text-[#4A2B1B]" />
+              <span className="text-[#4A2B1B]">Retry Failed</span>
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {onInsertSeparately && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600">
+              <Checkbox checked={combine} onCheckedChange={(checked) => setCombine(checked === true)} />
+              <span>Combine into one note</span>
+            </label>
+          )}
+          <Button variant="outline" onClick={onClose} disabled={isRunning}>
+            <span className="text-[#4A2B1B]">Cancel</span>
+          </Button>
+          {pendingIds.length > 0 ? (
+            <Button onClick={() => run(pendingIds)} disabled={isRunning || croppingId !== null}>
+              <span className="text-white">
+                {isRunning ? 'Extracting...' : `Extract ${pendingIds.length} ${pendingIds.length === 1 ? 'Image' : 'Images'}`}
+              </span>
+            </Button>
+          ) : (
+            <Button onClick={insertResults} disabled={isRunning || results.length === 0}>
+              <span className="text-white">
+                {combine || !onInsertSeparately ? 'Insert Text' : `Add ${results.length} ${results.length === 1 ? 'Note' : 'Notes'}`}
+              </span>
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OcrBatchQueue;
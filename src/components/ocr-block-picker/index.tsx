@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { joinBlocks, type OcrBlock } from '@/lib/ocr';
+
+interface OcrBlockPickerProps {
+  image: string;
+  blocks: OcrBlock[];
+  // The chosen blocks' text, and their ids in reading order
+  onInsert: (text: string, blockIds: string[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Draws the recognized blocks over the image. Clicking a block adds it to the
+ * selection, numbered in the order clicked, or takes it out again; the
+ * selection is inserted as text in that order.
+ */
+const OcrBlockPicker: React.FC<OcrBlockPickerProps> = ({ image, blocks, onInsert, onCancel }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => blocks.map(block => block.id));
+  // Blocks are only drawn over the page they came from; a photo has just the one
+  const pageBlocks = blocks.filter(block => block.page === 0);
+
+  const toggle = (blockId: string) => {
+    setSelectedIds(selectedIds.includes(blockId)
+      ? selectedIds.filter(id => id !== blockId)
+      : [...selectedIds, blockId]);
+  };
+
+  const preview = joinBlocks(blocks, selectedIds);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-[#4A2B1B]">
+        Click blocks in the order they should be read. Click a numbered block again to leave it out.
+      </p>
+      <div className="flex justify-center">
+        <div className="relative inline-block">
+          {/* A data URL, which next/image has nothing to optimize in */}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={image} alt="Recognized page" className="max-h-[400px] max-w-full block" />
+          {pageBlocks.map(block => {
+            const position = selectedIds.indexOf(block.id);
+            return (
+              <button
+                key={block.id}
+                type="button"
+                onClick={() => toggle(block.id)}
+                title={block.text}
+                aria-label={`${position >= 0 ? `Block ${position + 1}` : 'Unselected block'}: ${block.text.slice(0, 60)}`}
+                aria-pressed={position >= 0}
+                className={`absolute border-2 rounded-sm ${position >= 0
+                  ? 'border-[#8B593E] bg-[#8B593E]/15'
+                  : 'border-dashed border-gray-400 bg-white/30 hover:bg-white/10'}`}
+                style={{
+                  left: `${block.box.x * 100}%`,
+                  top: `${block.box.y * 100}%`,
+                  width: `${block.box.width * 100}%`,
+                  height: `${block.box.height * 100}%`
+                }}
+              >
+                {position >= 0 && (
+                  <span className="absolute -top-2 -left-2 h-5 min-w-5 px-1 rounded-full bg-[#8B593E] text-white text-xs leading-5">
+                    {position + 1}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setSelectedIds(blocks.map(block => block.id))}>
+            <span className="text-[#4A2B1B]">Select All</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setSelectedIds([])}>
+            <span className="text-[#4A2B1B]">Clear</span>
+          </Button>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={onCancel}>
+            <span className="text-[#4A2B1B]">Cancel</span>
+          </Button>
+          <Button onClick={() => onInsert(preview, selectedIds)} disabled={!preview}>
+            <span className="text-white">Use {selectedIds.length} {selectedIds.length === 1 ? 'Block' : 'Blocks'}</span>
+          </Button>
+        </div>
+      </div>
+
+      {preview && (
+        <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap break-words text-sm bg-white border border-[#D4BFA0] rounded p-2 font-sans">
+          {preview}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default OcrBlockPicker;
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { OcrWord } from '@/lib/ocr';
+import {
+  countHyphenatedBreaks,
+  countLineBreaks,
+  joinBrokenLines,
+  joinHyphenatedWords,
+  LOW_CONFIDENCE,
+  lowConfidenceRanges,
+  splitByRanges
+} from '@/lib/ocr-cleanup';
+
+interface OcrReviewProps {
+  image: string;
+  text: string;
+  // The recognized words with their confidence; empty when the engine gave none
+  words: OcrWord[];
+  onInsert: (text: string) => void;
+  // Replaces the note being written instead of adding to it
+  onReplace?: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Shared by the text box and the highlights behind it, so the two wrap identically
+const TEXT_LAYOUT = 'p-2 text-sm leading-6 font-sans whitespace-pre-wrap break-words overflow-y-scroll';
+
+/**
+ * Shows the image beside the recognized text for checking before it goes
+ * into the notes. Words the engine was unsure of are marked in both; the
+ * marks sit in a layer behind the text box, since a textarea can't style
+ * its own text.
+ */
+const OcrReview: React.FC<OcrReviewProps> = ({ image, text, words, onInsert, onReplace, onCancel }) => {
+  const [draft, setDraft] = useState(text);
+  const highlightsRef = useRef<HTMLDivElement>(null);
+
+  const unsureWords = words.filter(word => word.confidence < LOW_CONFIDENCE);
+  const pieces = splitByRanges(draft, lowConfidenceRanges(draft, words));
+  const markedCount = pieces.filter(piece => piece.marked).length;
+  const hyphenatedBreaks = countHyphenatedBreaks(draft);
+  const lineBreaks = countLineBreaks(draft);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-2 md:grid-cols-2">
+        <div className="flex justify-center items-start">
+          <div className="relative inline-block">
+            {/* A data URL, which next/image has nothing to optimize in */}
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={image} alt="Recognized" className="max-h-[400px] max-w-full block" />
+            {unsureWords.map((word, index) => (
+              <span
+                key={index}
+                title={`${word.text} (${Math.round(word.confidence * 100)}% sure)`}
+                className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm"
+                style={{
+                  left: `${word.box.x * 100}%`,
+                  top: `${word.box.y * 100}%`,
+                  width: `${word.box.width * 100}%`,
+                  height: `${word.box.height * 100}%`
+                }}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="relative h-[400px] bg-white border border-[#D4BFA0] rounded">
+          <div ref={highlightsRef} aria-hidden className={`absolute inset-0 text-transparent ${TEXT_LAYOUT}`}>
+            {pieces.map((piece, index) => piece.marked
+              ? <mark key={index} className="bg-amber-200 text-transparent rounded-sm">{piece.text}</mark>
+              : <React.Fragment key={index}>{piece.text}</React.Fragment>)}
+            {/* Keeps a trailing line break as tall as it is in the text box */}
+            {'\n '}
+          </div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onScroll={(e) => {
+              if (highlightsRef.current) highlightsRef.current.scrollTop = e.currentTarget.scrollTop;
+            }}
+            aria-label="Recognized text"
+            spellCheck
+            className={`absolute inset-0 w-full h-full resize-none bg-transparent text-[#4A2B1B] outline-none focus:ring-2 focus:ring-[#8B593E] rounded ${TEXT_LAYOUT}`}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {words.length === 0
+          ? 'This OCR engine did not say how sure it was of each word.'
+          : markedCount > 0
+            ? `${markedCount} ${markedCount === 1 ? 'word' : 'words'} the OCR was unsure of ${markedCount === 1 ? 'is' : 'are'} highlighted.`
+            : 'No unsure words left to check.'}
+      </p>
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft(joinHyphenatedWords(draft))}
+            disabled={hyphenatedBreaks === 0}
+          >
+            <span className="text-[#4A2B1B]">Join Hyphenated Words ({hyphenatedBreaks})</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setDraft(joinBrokenLines(draft))} disabled={lineBreaks === 0}>
+            <span className="text-[#4A2B1B]">Join Broken Lines ({lineBreaks})</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setDraft(text)} disabled={draft === text}>
+            <span className="text-[#4A2B1B]">Revert</span>
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            <span className="text-[#4A2B1B]">Cancel</span>
+          </Button>
+          {onReplace && (
+            <Button variant="outline" onClick={() => onReplace(draft)} disabled={!draft.trim()}>
+              <span className="text-[#4A2B1B]">Replace Note</span>
+            </Button>
+          )}
+          <Button onClick={() => onInsert(draft)} disabled={!draft.trim()}>
+            <span className="text-white">Insert</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OcrReview;
@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUp, ArrowDown, Check, GripVertical, IndentDecrease, IndentIncrease, Pencil, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  availableMoves,
+  findOutlinePoint,
+  outlineLabel,
+  subtreeIds,
+  type DropPosition,
+  type OutlineMove
+} from '@/components/research-organizer/outline';
+import type { OutlinePoint } from '@/components/research-organizer/types';
+
+interface OutlineTreeProps {
+  points: OutlinePoint[];
+  onMove: (pointId: string, targetId: string, position: DropPosition) => void;
+  onShift: (pointId: string, move: OutlineMove) => void;
+  onRename: (pointId: string, text: string) => void;
+  onDelete: (pointId: string) => void;
+}
+
+// Arrow keys on a focused drag handle do what the move buttons do
+const KEY_MOVES: Record<string, OutlineMove> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowRight: 'indent',
+  ArrowLeft: 'outdent'
+};
+
+const DROP_INDICATORS: Record<DropPosition, string> = {
+  before: 'border-t-[#8B593E]',
+  after: 'border-b-[#8B593E]',
+  inside: 'bg-[#F5E6D3]'
+};
+
+const OutlineTree: React.FC<OutlineTreeProps> = ({ points, onMove, onShift, onRename, onDelete }) => {
+  // The dragged point and everything beneath it, none of which it can be dropped on
+  const [draggedIds, setDraggedIds] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+  const refocusId = useRef<string | null>(null);
+  // The point whose text is being edited, with the unsaved text
+  const [draft, setDraft] = useState<{ id: string; text: string } | null>(null);
+
+  // A keyboard move can remount the point under a new parent, so focus its handle again
+  useEffect(() => {
+    if (!refocusId.current) return;
+    handleRefs.current.get(refocusId.current)?.focus();
+    refocusId.current = null;
+  }, [points]);
+
+  const shift = (pointId: string, move: OutlineMove) => {
+    refocusId.current = pointId;
+    onShift(pointId, move);
+  };
+
+  const handleDragStart = (event: React.DragEvent, pointId: string) => {
+    const point = findOutlinePoint(points, pointId);
+    if (!point) return;
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', pointId);
+    setDraggedIds(subtreeIds(point));
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>, pointId: string) => {
+    if (draggedIds.length === 0 || draggedIds.includes(pointId)) return;
+    event.preventDefault();
+
+    // Top quarter drops before the point, bottom quarter after it, the middle inside it
+    const { top, height } = event.currentTarget.getBoundingClientRect();
+    const offset = (event.clientY - top) / height;
+    const position = offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+    if (dropTarget?.id !== pointId || dropTarget.position !== position) {
+      setDropTarget({ id: pointId, position });
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggedIds([]);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (event: React.DragEvent, pointId: string) => {
+    event.preventDefault();
+    if (draggedIds.length > 0 && dropTarget?.id === pointId) {
+      onMove(draggedIds[0], pointId, dropTarget.position);
+    }
+    handleDragEnd();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, pointId: string) => {
+    const move = KEY_MOVES[event.key];
+    if (!move) return;
+    event.preventDefault();
+    shift(pointId, move);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    if (draft.text.trim()) onRename(draft.id, draft.text);
+    setDraft(null);
+  };
+
+  const handleDraftKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter') saveDraft();
+    if (event.key === 'Escape') setDraft(null);
+  };
+
+  const renderPoints = (siblings: OutlinePoint[], depth: number): React.ReactNode =>
+    siblings.map((point, index) => {
+      const moves = availableMoves(points, point.id);
+      const label = `${outlineLabel(index, depth)} ${point.text}`;
+      const indicator = dropTarget?.id === point.id ? DROP_INDICATORS[dropTarget.position] : '';
+
+      return (
+        <div key={point.id} className={`space-y-1 ${depth > 0 ? 'ml-6' : ''}`}>
+          <div
+            // Not while editing, so selecting text in the input doesn't start a drag
+            draggable={draft?.id !== point.id}
+            onDragStart={(e) => handleDragStart(e, point.id)}
+            onDragOver={(e) => handleDragOver(e, point.id)}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, point.id)}
+            onDragEnd={handleDragEnd}
+            className={`flex items-center space-x-2 rounded border-y-2 border-transparent ${indicator} ${draggedIds.includes(point.id) ? 'opacity-50' : ''}`}
+          >
+            <button
+              type="button"
+              ref={(element) => {
+                if (element) handleRefs.current.set(point.id, element);
+                else handleRefs.current.delete(point.id);
+              }}
+              onKeyDown={(e) => handleKeyDown(e, point.id)}
+              aria-label={`Move "${label}". Use the arrow keys to move up, down, in or out.`}
+              title="Drag to move, or focus and use the arrow keys"
+              className="p-1 text-gray-400 hover:text-[#8B593E] cursor-grab focus:outline-none focus:ring-2 focus:ring-[#8B593E] rounded"
+            >
+              <GripVertical className="h-4 w-4" />
+            </button>
+            {draft?.id === point.id ? (
+              <>
+                <Input
+                  value={draft.text}
+                  onChange={(e) => setDraft({ id: point.id, text: e.target.value })}
+                  onKeyDown={handleDraftKeyDown}
+                  autoFocus
+                  aria-label="Point text"
+                  className="bg-white border-[#D4BFA0] flex-grow"
+                />
+                <Button variant="ghost" size="sm" onClick={saveDraft} title="Save" className="p-1">
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)} title="Cancel" className="p-1">
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <p className={`flex-grow whitespace-normal break-words ${depth === 0 ? 'font-medium' : ''}`}>
+                  {label}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft({ id: point.id, text: point.text })}
+                  title="Edit text"
+                  className="p-1"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => shift(point.id, 'up')}
+              disabled={!moves.up}
+              title="Move up"
+              className="p-1"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => shift(point.id, 'down')}
+              disabled={!moves.down}
+              title="Move down"
+              className="p-1"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => shift(point.id, 'outdent')}
+              disabled={!moves.outdent}
+              title="Promote one level"
+              className="p-1"
+            >
+              <IndentDecrease className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => shift(point.id, 'indent')}
+              disabled={!moves.indent}
+              title="Demote under the point above"
+              className="p-1"
+            >
+              <IndentIncrease className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(point.id)}
+              title="Delete point"
+              className="p-1 text-red-500 hover:text-red-700"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          {renderPoints(point.children, depth + 1)}
+        </div>
+      );
+    });
+
+  return <div className="space-y-2">{renderPoints(points, 0)}</div>;
+};
+
+export default OutlineTree;
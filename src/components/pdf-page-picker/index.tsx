@@ -0,0 +1,338 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import ReactCrop, { type Crop, type PercentCrop } from 'react-image-crop';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { ExtractedNote } from '@/components/research-organizer/types';
+import { cropImage } from '@/lib/image';
+import { requestVisionBatch, VISION_BATCH_SIZE, VisionRequestError, type OcrMode, type VisionUsage } from '@/lib/ocr';
+import { chunkIds } from '@/lib/ocr-queue';
+import { hasTextLayer, openPdf, pdfPageLocator, readPageText, readRegionText, renderPage } from '@/lib/pdf';
+
+interface PdfPagePickerProps {
+  file: File;
+  mode: OcrMode;
+  onUsage: (usage: VisionUsage) => void;
+  onInsert: (text: string, locator: ExtractedNote['locator']) => void;
+  // Adds each page as a note of its own; without it, pages can only be combined
+  onInsertSeparately?: (notes: ExtractedNote[]) => void;
+  onClose: () => void;
+}
+
+interface PageResult {
+  page: number;
+  text: string;
+  // Whether the text came from the PDF itself or from OCR of the drawn page
+  source: 'text' | 'ocr';
+  error?: string;
+}
+
+const EMPTY_CROP: Crop = { unit: 'px', x: 0, y: 0, width: 0, height: 0 };
+
+/**
+ * Browses a PDF and reads the chosen pages, or a region of one page. Pages
+ * with a text layer are read directly; scans are drawn and sent to
+ * /api/vision. The page numbers become the notes' locators.
+ */
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, mode, onUsage, onInsert, onInsertSeparately, onClose }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageImage, setPageImage] = useState<string | null>(null);
+  const [selectedPages, setSelectedPages] = useState<number[]>([]);
+  const [crop, setCrop] = useState<Crop>(EMPTY_CROP);
+  const [region, setRegion] = useState<PercentCrop | null>(null);
+  // What is being read right now, or null when idle
+  const [status, setStatus] = useState<string | null>(null);
+  const [results, setResults] = useState<PageResult[] | null>(null);
+  const [combine, setCombine] = useState(true);
+  const pageImageRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let opened: PDFDocumentProxy | null = null;
+    openPdf(file)
+      .then(document => {
+        opened = document;
+        if (cancelled) {
+          document.destroy();
+          return;
+        }
+        setPdf(document);
+        setPageNumber(1);
+        setSelectedPages([]);
+      })
+      .catch(error => {
+        console.error('Opening PDF failed:', error);
+        if (!cancelled) setLoadError('This PDF could not be opened.');
+      });
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    setPageImage(null);
+    pdf.getPage(pageNumber)
+      .then(renderPage)
+      .then(image => {
+        if (!cancelled) setPageImage(image);
+      })
+      .catch(error => console.error('Drawing page failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageNumber]);
+
+  const goToPage = (page: number) => {
+    setPageNumber(page);
+    setCrop(EMPTY_CROP);
+    setRegion(null);
+  };
+
+  const togglePage = (page: number) => {
+    setSelectedPages(selectedPages.includes(page)
+      ? selectedPages.filter(selected => selected !== page)
+      : [...selectedPages, page].sort((a, b) => a - b));
+  };
+
+  // Sends drawn pages to /api/vision, a batch at a time
+  const recognize = async (pages: number[], images: string[]): Promise<PageResult[]> => {
+    try {
+      const { results: batch, usage } = await requestVisionBatch(images, mode);
+      onUsage(usage);
+      return pages.map((page, index) => ({
+        page,
+        text: batch[index]?.text ?? '',
+        source: 'ocr',
+        error: batch[index]?.error
+      }));
+    } catch (error) {
+      if (error instanceof VisionRequestError && error.usage) onUsage(error.usage);
+      const message = error instanceof Error ? error.message : 'Failed to extract text from image.';
+      return pages.map(page => ({ page, text: '', source: 'ocr', error: message }));
+    }
+  };
+
+  const readPages = async () => {
+    if (!pdf) return;
+    const read: PageResult[] = [];
+    const scans: number[] = [];
+    try {
+      for (const page of selectedPages) {
+        setStatus(`Reading page ${page}...`);
+        const text = await readPageText(await pdf.getPage(page));
+        if (hasTextLayer(text)) {
+          read.push({ page, text, source: 'text' });
+        } else {
+          scans.push(page);
+        }
+      }
+      for (const chunk of chunkIds(scans, VISION_BATCH_SIZE)) {
+        setStatus(`Recognizing scanned ${chunk.length === 1 ? 'page' : 'pages'} ${pdfPageLocator(chunk)?.value}...`);
+        const images: string[] = [];
+        for (const page of chunk) {
+          images.push(await renderPage(await pdf.getPage(page)));
+        }
+        read.push(...await recognize(chunk, images));
+      }
+      setResults(read.sort((a, b) => a.page - b.page));
+    } catch (error) {
+      console.error('Reading PDF failed:', error);
+      alert('Failed to read the PDF. Please try again.');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const readRegion = async () => {
+    if (!pdf || !region || !pageImageRef.current) return;
+    setStatus(`Reading the region on page ${pageNumber}...`);
+    try {
+      const page = await pdf.getPage(pageNumber);
+      if (hasTextLayer(await readPageText(page))) {
+        const text = await readRegionText(page, {
+          x: region.x / 100,
+          y: region.y / 100,
+          width: region.width / 100,
+          height: region.height / 100
+        });
+        setResults([{ page: pageNumber, text, source: 'text' }]);
+        return;
+      }
+      const cropped = cropImage(pageImageRef.current, crop);
+      if (cropped) setResults(await recognize([pageNumber], [cropped]));
+    } catch (error) {
+      console.error('Reading region failed:', error);
+      alert('Failed to read the region. Please try again.');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const readable = (results ?? []).filter(result => result.text.trim());
+
+  const insertResults = () => {
+    if (combine || !onInsertSeparately) {
+      onInsert(
+        readable.map(result => result.text.trim()).join('\n\n'),
+        pdfPageLocator(readable.map(result => result.page))
+      );
+    } else {
+      onInsertSeparately(readable.map(result => ({ text: result.text.trim(), locator: pdfPageLocator([result.page]) })));
+    }
+    onClose();
+  };
+
+  if (loadError) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-red-600">{loadError}</p>
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            <span className="text-[#4A2B1B]">Close</span>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!pdf) {
+    return <p className="text-center text-sm text-[#4A2B1B]">Opening {file.name}...</p>;
+  }
+
+  if (results) {
+    return (
+      <div className="space-y-3">
+        <ol className="space-y-2 max-h-[400px] overflow-y-auto">
+          {results.map(result => (
+            <li key={result.page} className="border border-[#D4BFA0] rounded p-2 bg-white">
+              <p className="text-xs text-gray-500">
+                Page {result.page} · {result.source === 'text' ? 'text layer' : 'OCR'}
+              </p>
+              {result.error ? (
+                <p className="text-xs text-red-600">{result.error}</p>
+              ) : (
+                <p className="text-sm text-[#4A2B1B] whitespace-pre-wrap line-clamp-4">
+                  {result.text.trim() || 'No text found.'}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+        <div className="flex flex-wrap justify-end items-center gap-2">
+          {onInsertSeparately && readable.length > 1 && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600">
+              <Checkbox checked={combine} onCheckedChange={(checked) => setCombine(checked === true)} />
+              <span>Combine into one note</span>
+            </label>
+          )}
+          <Button variant="outline" onClick={() => setResults(null)}>
+            <span className="text-[#4A2B1B]">Back to Pages</span>
+          </Button>
+          <Button onClick={insertResults} disabled={readable.length === 0}>
+            <span className="text-white">
+              {combine || !onInsertSeparately || readable.length === 1 ? 'Insert Text' : `Add ${readable.length} Notes`}
+            </span>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-[#4A2B1B]">
+        <span className="truncate" title={file.name}>{file.name}</span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="p-1"
+            onClick={() => goToPage(pageNumber - 1)}
+            disabled={pageNumber <= 1}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Page {pageNumber} of {pdf.numPages}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="p-1"
+            onClick={() => goToPage(pageNumber + 1)}
+            disabled={pageNumber >= pdf.numPages}
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-center min-h-[200px]">
+        {pageImage ? (
+          <ReactCrop
+            crop={crop}
+            onChange={(c, percent) => {
+              setCrop(c);
+              setRegion(percent.width && percent.height ? percent : null);
+            }}
+            aspect={undefined}
+          >
+            {/* A data URL, which next/image has nothing to optimize in */}
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img ref={pageImageRef} src={pageImage} alt={`Page ${pageNumber}`} className="max-h-[500px] w-full object-contain" />
+          </ReactCrop>
+        ) : (
+          <p className="self-center text-sm text-gray-500">Drawing page {pageNumber}...</p>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Select pages to read them whole, or drag over this page to read just that region.
+      </p>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center space-x-1 text-sm text-[#4A2B1B]">
+            <Checkbox checked={selectedPages.includes(pageNumber)} onCheckedChange={() => togglePage(pageNumber)} />
+            <span>Include page {pageNumber}</span>
+          </label>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSelectedPages(Array.from({ length: pdf.numPages }, (_, index) => index + 1))}
+          >
+            <span className="text-[#4A2B1B]">All Pages</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setSelectedPages([])} disabled={selectedPages.length === 0}>
+            <span className="text-[#4A2B1B]">Clear</span>
+          </Button>
+          {selectedPages.length > 0 && (
+            <span className="text-xs text-gray-500">Pages {pdfPageLocator(selectedPages)?.value}</span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={onClose} disabled={status !== null}>
+            <span className="text-[#4A2B1B]">Cancel</span>
+          </Button>
+          <Button variant="outline" onClick={readRegion} disabled={status !== null || !region}>
+            <span className="text-[#4A2B1B]">Read Region</span>
+          </Button>
+          <Button onClick={readPages} disabled={status !== null || selectedPages.length === 0}>
+            <span className="text-white">
+              Read {selectedPages.length} {selectedPages.length === 1 ? 'Page' : 'Pages'}
+            </span>
+          </Button>
+        </div>
+      </div>
+
+      {status && <p className="text-center text-sm text-[#4A2B1B]">{status}</p>}
+    </div>
+  );
+};
+
+export default PdfPagePicker;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { FolderOpen, PlusCircle, Pencil, Copy, Trash2, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ProjectMeta } from '@/components/research-organizer/types';
+
+interface ProjectSwitcherProps {
+  projects: ProjectMeta[];
+  currentProjectId: string;
+  onSelect: (projectId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (projectId: string, name: string) => void;
+  onDuplicate: (projectId: string) => void;
+  onDelete: (projectId: string) => void;
+}
+
+type EditMode = 'none' | 'create' | 'rename';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  currentProjectId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete
+}) => {
+  const [editMode, setEditMode] = useState<EditMode>('none');
+  const [nameDraft, setNameDraft] = useState('');
+
+  const currentProject = projects.find(project => project.id === currentProjectId);
+
+  const startEditing = (mode: EditMode) => {
+    setNameDraft(mode === 'rename' && currentProject ? currentProject.name : '');
+    setEditMode(mode);
+  };
+
+  const cancelEditing = () => {
+    setEditMode('none');
+    setNameDraft('');
+  };
+
+  const submitName = () => {
+    const name = nameDraft.trim();
+    if (!name) return;
+
+    if (editMode === 'create') {
+      onCreate(name);
+    } else if (editMode === 'rename' && currentProject) {
+      onRename(currentProject.id, name);
+    }
+    cancelEditing();
+  };
+
+  const handleDelete = () => {
+    if (!currentProject) return;
+    if (window.confirm(`Delete "${currentProject.name}" and all of its outline and research? This cannot be undone.`)) {
+      onDelete(currentProject.id);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-[#D4BFA0] mb-4 space-y-2">
+      {editMode === 'none' ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <FolderOpen className="h-5 w-5 text-[#8B593E]" />
+          <Select value={currentProjectId} onValueChange={onSelect}>
+            <SelectTrigger className="w-56 bg-white">
+              <SelectValue placeholder="Select project" />
+            </SelectTrigger>
+            <SelectContent className="bg-white border shadow-lg rounded-md overflow-hidden z-50">
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={() => startEditing('create')} title="New project">
+            <PlusCircle className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => startEditing('rename')} disabled={!currentProject} title="Rename project">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => currentProject && onDuplicate(currentProject.id)} disabled={!currentProject} title="Duplicate project">
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleDelete}
+            disabled={!currentProject}
+            className="text-red-500 hover:text-red-700"
+            title="Delete project"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Input
+            autoFocus
+            placeholder={editMode === 'create' ? 'New project name' : 'Project name'}
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitName();
+              if (e.key === 'Escape') cancelEditing();
+            }}
+            className="bg-white border-[#D4BFA0]"
+          />
+          <Button variant="ghost" size="sm" onClick={submitName} disabled={!nameDraft.trim()} title="Save">
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={cancelEditing} title="Cancel">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      {currentProject && (
+        <p className="text-xs text-gray-600">
+          Created {formatDate(currentProject.createdAt)} · Modified {formatDate(currentProject.modifiedAt)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
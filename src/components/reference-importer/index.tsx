@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SOURCE_TYPE_LABELS } from '@/components/research-organizer/bib-entry';
+import { summarizeNames } from '@/components/research-organizer/names';
+import {
+  parseReferenceFile,
+  type ReferenceImportResult
+} from '@/components/research-organizer/reference-import';
+import type { BibEntry } from '@/components/research-organizer/types';
+
+interface ReferenceImporterProps {
+  onUseReference: (bibEntry: BibEntry) => void;
+}
+
+const ReferenceImporter: React.FC<ReferenceImporterProps> = ({ onUseReference }) => {
+  const [result, setResult] = useState<ReferenceImportResult | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [usedKeys, setUsedKeys] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setResult(parseReferenceFile(file.name, await file.text()));
+    } catch (error) {
+      console.error('Reference import failed:', error);
+      setResult({ references: [], errors: ['The file could not be read.'] });
+    }
+    setFileName(file.name);
+    setUsedKeys([]);
+  };
+
+  const handleUse = (key: string, bibEntry: BibEntry) => {
+    onUseReference({ ...bibEntry });
+    setUsedKeys(prev => [...prev, key]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center space-x-2"
+      >
+        <FileUp className="w-4 h-4" />
+        <span className="text-[#4A2B1B]">Import from BibTeX / RIS</span>
+      </Button>
+      <input
+        type="file"
+        accept=".bib,.ris,.txt"
+        className="hidden"
+        ref={fileInputRef}
+        onChange={handleFileUpload}
+      />
+
+      {result && (
+        <div className="bg-white p-4 rounded-lg border border-[#D4BFA0] space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-[#4A2B1B]">
+              {result.references.length} source{result.references.length === 1 ? '' : 's'} in {fileName}
+            </h4>
+            <Button variant="ghost" size="sm" onClick={() => setResult(null)} title="Close preview">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {result.errors.length > 0 && (
+            <ul className="list-disc ml-5 text-sm text-red-600 space-y-1">
+              {result.errors.map((error, index) => <li key={index}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="max-h-96 overflow-y-auto space-y-3">
+            {result.references.map((reference, index) => {
+              const key = `${index}-${reference.key}`;
+              const unmapped = Object.entries(reference.unmappedFields);
+              return (
+                <div key={key} className="p-3 rounded border border-gray-200 space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium break-words">{reference.bibEntry.title || '(untitled)'}</p>
+                      <p className="text-sm text-gray-600 break-words">
+                        {[summarizeNames(reference.bibEntry.authors), reference.bibEntry.year].filter(Boolean).join(' · ')}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {reference.key} · {reference.originalType} → {SOURCE_TYPE_LABELS[reference.bibEntry.sourceType]}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => handleUse(key, reference.bibEntry)}
+                      className="bg-[#8B593E] hover:bg-[#6D4331] text-white shrink-0"
+                    >
+                      {usedKeys.includes(key) ? 'Use Again' : 'Use This Source'}
+                    </Button>
+                  </div>
+                  {unmapped.length > 0 && (
+                    <div className="text-xs text-yellow-700">
+                      <span className="font-medium">Not imported: </span>
+                      {unmapped.map(([field, value]) => (
+                        <span key={field} className="mr-2 break-words">
+                          {field}={value.length > 60 ? `${value.slice(0, 60)}…` : value}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceImporter;
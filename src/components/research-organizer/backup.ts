@@ -0,0 +1,393 @@
+import type {
+  BibEntry,
+  BibTextField,
+  CitationStyle,
+  Contributor,
+  EntryKind,
+  Locator,
+  LocatorType,
+  OutlinePoint,
+  ProjectData,
+  ProjectMeta,
+  ResearchEntry,
+  Source,
+  SourceType,
+  Tag,
+  TagColor
+} from './types';
+import { SOURCE_TYPES } from './bib-entry';
+import { DEFAULT_ENTRY_KIND, ENTRY_KINDS, LOCATOR_TYPES } from './entry-kinds';
+import { parseNames } from './names';
+import { addOutlinePoint, flattenOutline } from './outline';
+import { createSourceIndex, foldEmbeddedSources, type EmbeddedResearchEntry } from './sources';
+import { TAG_COLORS, createTag, findTagByName } from './tags';
+
+export const PROJECT_BUNDLE_FORMAT = 'cozy-research-project';
+// Version 5 adds entry kinds and locators, version 4 tags. Version 3 introduced the source
+// library that research entries cite by id; versions 1 and 2 embedded a bibliography in every
+// entry. Version 1 files also held names as plain strings.
+export const PROJECT_BUNDLE_VERSION = 5;
+
+export interface ProjectBundle {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Omit<ProjectMeta, 'id'> & ProjectData;
+}
+
+export interface BundleParseResult {
+  bundle: ProjectBundle | null;
+  // Problems that make the file unusable
+  errors: string[];
+  // Problems that were worked around, e.g. skipped entries
+  warnings: string[];
+}
+
+const CITATION_STYLES: CitationStyle[] = ['turabian', 'apa', 'mla', 'chicago', 'ieee'];
+const BIB_TEXT_FIELDS: BibTextField[] = [
+  'title', 'year', 'doi', 'url', 'accessDate', 'publisher', 'city', 'edition',
+  'journalName', 'volume', 'issue', 'pages', 'websiteName', 'organization',
+  'newspaperName', 'bookTitle', 'chapterPages'
+];
+
+export const createProjectBundle = (project: ProjectMeta, data: ProjectData): ProjectBundle => ({
+  format: PROJECT_BUNDLE_FORMAT,
+  version: PROJECT_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project: {
+    name: project.name,
+    createdAt: project.createdAt,
+    modifiedAt: project.modifiedAt,
+    ...data
+  }
+});
+
+export const bundleFileName = (projectName: string) =>
+  `${projectName.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'project'}.cozy.json`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseOutlinePoint = (value: unknown, path: string, warnings: string[]): OutlinePoint | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.text !== 'string') {
+    warnings.push(`Outline point ${path} is missing its id or text and was skipped.`);
+    return null;
+  }
+
+  const level = value.level === 'sub' ? 'sub' : 'main';
+  const children = Array.isArray(value.children) ? value.children : [];
+  return {
+    id: value.id,
+    text: value.text,
+    level,
+    children: children
+      .map((child, index) => parseOutlinePoint(child, `${path}.${index + 1}`, warnings))
+      .filter((child): child is OutlinePoint => child !== null)
+  };
+};
+
+const isContributor = (value: unknown): value is Contributor =>
+  isRecord(value) && typeof value.given === 'string' && typeof value.family === 'string';
+
+// Accepts a contributor list, or the plain name string used by version 1 bundles
+const parseContributors = (value: unknown, field: string, label: string, warnings: string[]): Contributor[] => {
+  if (typeof value === 'string') return parseNames(value);
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    warnings.push(`${label} had an unreadable ${field} list, which was left empty.`);
+    return [];
+  }
+  const contributors = value.filter(isContributor);
+  if (contributors.length < value.length) {
+    warnings.push(`${label} had unreadable ${field}, which were dropped.`);
+  }
+  return contributors.map(({ given, family, corporate }) => ({ given, family, corporate: corporate === true }));
+};
+
+const parseBibEntry = (value: unknown, label: string, warnings: string[]): BibEntry | null => {
+  if (!isRecord(value) || !SOURCE_TYPES.includes(value.sourceType as SourceType)) {
+    warnings.push(`${label} has no valid source type and was skipped.`);
+    return null;
+  }
+
+  const missing: string[] = [];
+  const entry = {
+    sourceType: value.sourceType as SourceType,
+    authors: parseContributors(value.authors ?? value.author, 'authors', label, warnings),
+    editors: parseContributors(value.editors, 'editors', label, warnings)
+  } as BibEntry;
+  BIB_TEXT_FIELDS.forEach(field => {
+    const fieldValue = value[field];
+    if (typeof fieldValue === 'string') {
+      entry[field] = fieldValue;
+    } else {
+      if (fieldValue !== undefined) missing.push(field);
+      entry[field] = '';
+    }
+  });
+  if (missing.length > 0) {
+    warnings.push(`${label} had unreadable bibliography fields (${missing.join(', ')}), which were left blank.`);
+  }
+  return entry;
+};
+
+const collectPointIds = (points: OutlinePoint[], ids = new Set<string>()) => {
+  points.forEach(point => {
+    ids.add(point.id);
+    collectPointIds(point.children, ids);
+  });
+  return ids;
+};
+
+const parseSource = (value: unknown, index: number, warnings: string[]): Source | null => {
+  const label = `Source ${index + 1}`;
+  if (!isRecord(value) || typeof value.id !== 'string') {
+    warnings.push(`${label} is missing its id and was skipped.`);
+    return null;
+  }
+
+  const bibliography = parseBibEntry(value.bibliography, label, warnings);
+  return bibliography ? { id: value.id, bibliography } : null;
+};
+
+const parseTag = (value: unknown, index: number, warnings: string[]): Tag | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !value.name.trim()) {
+    warnings.push(`Tag ${index + 1} is missing its id or name and was skipped.`);
+    return null;
+  }
+  const color = TAG_COLORS.includes(value.color as TagColor) ? value.color as TagColor : TAG_COLORS[0];
+  return { id: value.id, name: value.name, color };
+};
+
+// Unknown tag ids are dropped silently; the entry itself is still fine
+const parseTagIds = (value: unknown, tagIds: Set<string>) =>
+  Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string' && tagIds.has(id)) : [];
+
+const parseLocator = (value: unknown): Locator | null =>
+  isRecord(value) && LOCATOR_TYPES.includes(value.type as LocatorType) && typeof value.value === 'string'
+    ? { type: value.type as LocatorType, value: value.value }
+    : null;
+
+const parseResearchEntry = (
+  value: unknown,
+  index: number,
+  pointIds: Set<string>,
+  sourceIds: Set<string>,
+  tagIds: Set<string>,
+  warnings: string[]
+): ResearchEntry | EmbeddedResearchEntry | null => {
+  const label = `Research entry ${index + 1}`;
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.text !== 'string') {
+    warnings.push(`${label} is missing its id or text and was skipped.`);
+    return null;
+  }
+  if (typeof value.pointId !== 'string' || !pointIds.has(value.pointId)) {
+    warnings.push(`${label} is not attached to any outline point in the file and was skipped.`);
+    return null;
+  }
+
+  const entry = {
+    id: value.id,
+    pointId: value.pointId,
+    text: value.text,
+    tagIds: parseTagIds(value.tagIds, tagIds),
+    kind: ENTRY_KINDS.includes(value.kind as EntryKind) ? value.kind as EntryKind : DEFAULT_ENTRY_KIND,
+    locator: parseLocator(value.locator)
+  };
+  if (typeof value.sourceId === 'string') {
+    if (sourceIds.has(value.sourceId)) return { ...entry, sourceId: value.sourceId };
+    warnings.push(`${label} cites a source that is not in the file and was skipped.`);
+    return null;
+  }
+
+  // Bundles before version 3 embed the bibliography in each entry
+  const bibliography = parseBibEntry(value.bibliography, label, warnings);
+  if (!bibliography) return null;
+  return { ...entry, bibliography };
+};
+
+/**
+ * Validates a project bundle read from disk. Individual bad outline points or
+ * research entries are dropped with a warning; a file that isn't a project
+ * bundle at all produces errors and no bundle.
+ */
+export const parseProjectBundle = (json: string): BundleParseResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { bundle: null, errors: ['The file is not valid JSON.'], warnings };
+  }
+
+  if (!isRecord(raw) || raw.format !== PROJECT_BUNDLE_FORMAT) {
+    return { bundle: null, errors: ['The file is not a Cozy Research project export.'], warnings };
+  }
+  if (typeof raw.version !== 'number' || raw.version > PROJECT_BUNDLE_VERSION) {
+    errors.push(`The file was exported by a newer version (format ${String(raw.version)}) and can't be read.`);
+  }
+  if (!isRecord(raw.project)) {
+    errors.push('The file does not contain any project data.');
+  }
+  if (errors.length > 0 || !isRecord(raw.project)) {
+    return { bundle: null, errors, warnings };
+  }
+
+  const project = raw.project;
+  if (typeof project.thesis !== 'string' && project.thesis !== undefined) {
+    warnings.push('The thesis could not be read and was left blank.');
+  }
+  if (!Array.isArray(project.outlinePoints)) {
+    warnings.push('The outline could not be read; the project will have no outline points.');
+  }
+  if (project.sources !== undefined && !Array.isArray(project.sources)) {
+    warnings.push('The source library could not be read; entries citing it will be skipped.');
+  }
+  if (!Array.isArray(project.researchEntries)) {
+    warnings.push('The research entries could not be read; the project will have no research.');
+  }
+
+  const outlinePoints = (Array.isArray(project.outlinePoints) ? project.outlinePoints : [])
+    .map((point, index) => parseOutlinePoint(point, `${index + 1}`, warnings))
+    .filter((point): point is OutlinePoint => point !== null);
+  const pointIds = collectPointIds(outlinePoints);
+  const parsedSources = (Array.isArray(project.sources) ? project.sources : [])
+    .map((source, index) => parseSource(source, index, warnings))
+    .filter((source): source is Source => source !== null);
+  const sourceIds = new Set(parsedSources.map(source => source.id));
+  const tags = (Array.isArray(project.tags) ? project.tags : [])
+    .map((tag, index) => parseTag(tag, index, warnings))
+    .filter((tag): tag is Tag => tag !== null);
+  const tagIds = new Set(tags.map(tag => tag.id));
+  const parsedEntries = (Array.isArray(project.researchEntries) ? project.researchEntries : [])
+    .map((entry, index) => parseResearchEntry(entry, index, pointIds, sourceIds, tagIds, warnings))
+    .filter((entry): entry is ResearchEntry | EmbeddedResearchEntry => entry !== null);
+  const { sources, researchEntries } = foldEmbeddedSources(parsedSources, parsedEntries);
+
+  const citationStyle = CITATION_STYLES.includes(project.citationStyle as CitationStyle)
+    ? project.citationStyle as CitationStyle
+    : 'turabian';
+  const now = new Date().toISOString();
+
+  return {
+    bundle: {
+      format: PROJECT_BUNDLE_FORMAT,
+      version: raw.version as number,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : now,
+      project: {
+        name: typeof project.name === 'string' && project.name.trim() ? project.name : 'Imported Project',
+        createdAt: typeof project.createdAt === 'string' ? project.createdAt : now,
+        modifiedAt: typeof project.modifiedAt === 'string' ? project.modifiedAt : now,
+        thesis: typeof project.thesis === 'string' ? project.thesis : '',
+        outlinePoints,
+        sources,
+        tags,
+        researchEntries,
+        citationStyle
+      }
+    },
+    errors,
+    warnings
+  };
+};
+
+export const bundleProjectData = ({ project }: ProjectBundle): ProjectData => ({
+  thesis: project.thesis,
+  outlinePoints: project.outlinePoints,
+  sources: project.sources,
+  tags: project.tags,
+  researchEntries: project.researchEntries,
+  citationStyle: project.citationStyle
+});
+
+/**
+ * Adds imported points to the tree, matching points by id wherever they sit.
+ * A point that already exists keeps its text and place, and imported points
+ * beneath it are added under it there.
+ */
+const mergeOutlinePoints = (current: OutlinePoint[], imported: OutlinePoint[]): OutlinePoint[] => {
+  const ids = collectPointIds(current);
+  // Parents come before their children, so each new point's parent is in the tree by the time it is added
+  return flattenOutline(imported).reduce((merged, { point, parentId }) => {
+    if (ids.has(point.id)) return merged;
+    ids.add(point.id);
+    return addOutlinePoint(merged, parentId, { ...point, children: [] });
+  }, current);
+};
+
+// Holds merged entries whose outline point didn't make it into the merged outline
+const UNPLACED_POINT_TEXT = 'Unplaced imported research';
+
+export interface ProjectMergeResult {
+  data: ProjectData;
+  // Anything the merge had to change to keep the project consistent
+  warnings: string[];
+}
+
+/**
+ * Merges an imported project into the current one. Existing data always wins:
+ * the current thesis and citation style are kept unless the thesis is empty,
+ * and imported outline points or entries whose ids already exist are skipped,
+ * though new points beneath an existing point still join it. Imported sources
+ * identical to a current source are folded into it, and imported tags into
+ * the current tag with the same name.
+ */
+export const mergeProjectData = (current: ProjectData, imported: ProjectData): ProjectMergeResult => {
+  const currentEntryIds = new Set(current.researchEntries.map(entry => entry.id));
+  const sourceIndex = createSourceIndex(current.sources);
+  const sourceIds = new Map(imported.sources.map(source => [source.id, sourceIndex.idFor(source.bibliography, source.id)]));
+
+  const tags = [...current.tags];
+  const tagIds = new Map(imported.tags.map(importedTag => {
+    const existing = findTagByName(tags, importedTag.name);
+    if (existing) return [importedTag.id, existing.id];
+    const tag = tags.some(t => t.id === importedTag.id) ? createTag(importedTag.name, importedTag.color) : importedTag;
+    tags.push(tag);
+    return [importedTag.id, tag.id];
+  }));
+
+  let outlinePoints = mergeOutlinePoints(current.outlinePoints, imported.outlinePoints);
+  let researchEntries = [
+    ...current.researchEntries,
+    ...imported.researchEntries
+      .filter(entry => !currentEntryIds.has(entry.id))
+      .map(entry => ({
+        ...entry,
+        sourceId: sourceIds.get(entry.sourceId) ?? entry.sourceId,
+        tagIds: entry.tagIds.map(id => tagIds.get(id) ?? id)
+      }))
+  ];
+
+  // Every entry must sit under a point; any that don't are gathered under a new one rather than lost
+  const warnings: string[] = [];
+  const pointIds = collectPointIds(outlinePoints);
+  const unplaced = researchEntries.filter(entry => !pointIds.has(entry.pointId));
+  if (unplaced.length > 0) {
+    const holder: OutlinePoint = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      text: UNPLACED_POINT_TEXT,
+      level: 'main',
+      children: []
+    };
+    outlinePoints = addOutlinePoint(outlinePoints, null, holder);
+    researchEntries = researchEntries.map(entry => pointIds.has(entry.pointId) ? entry : { ...entry, pointId: holder.id });
+    warnings.push(
+      `${unplaced.length} research ${unplaced.length === 1 ? 'entry was' : 'entries were'} not attached to any point ` +
+      `in the merged outline and ${unplaced.length === 1 ? 'was' : 'were'} moved under "${UNPLACED_POINT_TEXT}".`
+    );
+  }
+
+  return {
+    data: {
+      thesis: current.thesis || imported.thesis,
+      outlinePoints,
+      sources: sourceIndex.sources,
+      tags,
+      researchEntries,
+      citationStyle: current.citationStyle
+    },
+    warnings
+  };
+};
@@ -0,0 +1,98 @@
+import { parseNames } from './names';
+import type { BibEntry, BibEntryKey, Contributor, SourceType } from './types';
+
+export const SOURCE_TYPES: SourceType[] = ['book', 'journal', 'website', 'newspaper', 'chapter'];
+
+export const SOURCE_TYPE_LABELS: Record<SourceType, string> = {
+  book: 'Book',
+  journal: 'Journal Article',
+  website: 'Website',
+  newspaper: 'Newspaper',
+  chapter: 'Book Chapter'
+};
+
+export interface BibField {
+  key: BibEntryKey;
+  label: string;
+  required: boolean;
+}
+
+const COMMON_FIELDS: BibField[] = [
+  { key: 'authors', label: 'Author(s)', required: true },
+  { key: 'title', label: 'Title', required: true },
+  { key: 'year', label: 'Year', required: true },
+  { key: 'doi', label: 'DOI (if available)', required: false }
+];
+
+const SOURCE_TYPE_FIELDS: Record<SourceType, BibField[]> = {
+  book: [
+    { key: 'publisher', label: 'Publisher', required: true },
+    { key: 'city', label: 'City of Publication', required: true },
+    { key: 'edition', label: 'Edition', required: false }
+  ],
+  journal: [
+    { key: 'journalName', label: 'Journal Name', required: true },
+    { key: 'volume', label: 'Volume', required: true },
+    { key: 'issue', label: 'Issue', required: true },
+    { key: 'pages', label: 'Pages', required: true }
+  ],
+  website: [
+    { key: 'websiteName', label: 'Website Name', required: true },
+    { key: 'organization', label: 'Organization', required: true },
+    { key: 'url', label: 'URL', required: true },
+    { key: 'accessDate', label: 'Access Date', required: true }
+  ],
+  newspaper: [
+    { key: 'newspaperName', label: 'Newspaper Name', required: true },
+    { key: 'pages', label: 'Page Numbers', required: false }
+  ],
+  chapter: [
+    { key: 'bookTitle', label: 'Book Title', required: true },
+    { key: 'editors', label: 'Editor(s)', required: true },
+    { key: 'publisher', label: 'Publisher', required: true },
+    { key: 'chapterPages', label: 'Chapter Pages', required: true }
+  ]
+};
+
+// The form fields for a source type, in the order they are shown
+export const getSourceTypeFields = (sourceType: SourceType) => [...COMMON_FIELDS, ...SOURCE_TYPE_FIELDS[sourceType]];
+
+// Empty bibliography entry template
+export const createEmptyBibEntry = (sourceType: SourceType = 'book'): BibEntry => ({
+  sourceType,
+  authors: [],
+  title: '',
+  year: '',
+  doi: '',
+  url: '',
+  accessDate: new Date().toISOString().split('T')[0],
+  publisher: '',
+  city: '',
+  edition: '',
+  journalName: '',
+  volume: '',
+  issue: '',
+  pages: '',
+  websiteName: '',
+  organization: '',
+  newspaperName: '',
+  bookTitle: '',
+  editors: [],
+  chapterPages: ''
+});
+
+// Entries saved before names were structured hold author and editors as plain strings
+export type StoredBibEntry = Omit<BibEntry, 'authors' | 'editors'> & {
+  author?: string;
+  authors?: Contributor[];
+  editors?: string | Contributor[];
+};
+
+export const normalizeBibEntry = (bib: StoredBibEntry): BibEntry => {
+  const { author, authors, editors, ...rest } = bib;
+  return {
+    ...rest,
+    authors: authors ?? parseNames(author ?? ''),
+    editors: typeof editors === 'string' ? parseNames(editors) : editors ?? []
+  };
+};
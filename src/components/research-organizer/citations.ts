@@ -0,0 +1,227 @@
+import { formatLocator } from './entry-kinds';
+import { countNames, formatAuthors, formatEditors, formatInTextAuthors, formatNoteAuthors } from './names';
+import type { BibEntry, CitationStyle, Locator } from './types';
+
+export interface CitationSegment {
+  text: string;
+  italic: boolean;
+}
+
+// Titles that a style sets in italics are wrapped in these private-use
+// characters while a citation is built, then split out into segments.
+const ITALIC_START = '\uE000';
+const ITALIC_END = '\uE001';
+const ITALIC_PATTERN = new RegExp(`${ITALIC_START}([^${ITALIC_END}]*)${ITALIC_END}`, 'g');
+
+const it = (text: string) => (text ? `${ITALIC_START}${text}${ITALIC_END}` : '');
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// "2024-03-05" → "March 5, 2024", read as a calendar date so time zones can't shift the day
+const formatLongDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  if (!year || !month || !day) return isoDate;
+  return `${MONTHS[month - 1]} ${day}, ${year}`;
+};
+
+// Appends a period unless the text already ends with one, as "Smith, J." or "et al." do
+const period = (text: string) => (text.endsWith('.') ? text : `${text}.`);
+
+// Function to format citations for each style, with italic markers
+const formatMarkedCitation = (bib: BibEntry, style: CitationStyle): string => {
+  const author = formatAuthors(bib.authors, style);
+  const editors = formatEditors(bib.editors, style);
+  const editorLabel = countNames(bib.editors) > 1 ? 'Eds.' : 'Ed.';
+
+  switch (style) {
+    case 'turabian':
+      switch (bib.sourceType) {
+        case 'book':
+          return `${period(author)} ${it(bib.title)}. ${bib.city}: ${bib.publisher}${bib.edition ? `, ${bib.edition} edition` : ''}, ${bib.year}.${bib.doi ? ` DOI: ${bib.doi}` : ''}`;
+        case 'journal':
+          return `${period(author)} "${bib.title}." ${it(bib.journalName)} ${bib.volume}, no. ${bib.issue} (${bib.year}): ${bib.pages}.${bib.doi ? ` DOI: ${bib.doi}` : ''}`;
+        case 'website':
+          return `${period(author)} "${bib.title}." ${bib.websiteName}. ${bib.organization}. ${bib.url} (accessed ${new Date(bib.accessDate).toLocaleDateString()}).`;
+        case 'chapter':
+          return `${period(author)} "${bib.title}." In ${it(bib.bookTitle)}, edited by ${editors}, ${bib.chapterPages}. ${bib.city}: ${bib.publisher}, ${bib.year}.`;
+        case 'newspaper':
+          return `${period(author)} "${bib.title}." ${it(bib.newspaperName)}, ${bib.year}${bib.pages ? `, ${bib.pages}` : ''}.`;
+        default:
+          return '';
+      }
+
+    case 'apa':
+      switch (bib.sourceType) {
+        case 'book':
+          return `${period(author)} (${bib.year}). ${it(bib.title)}${bib.edition ? ` (${bib.edition} ed.)` : ''}. ${bib.publisher}.${bib.doi ? ` https://doi.org/${bib.doi}` : ''}`;
+        case 'journal':
+          return `${period(author)} (${bib.year}). ${bib.title}. ${it(`${bib.journalName}, ${bib.volume}`)}(${bib.issue}), ${bib.pages}.${bib.doi ? ` https://doi.org/${bib.doi}` : ''}`;
+        case 'website':
+          return `${period(author)} (${bib.year}). ${it(bib.title)}. ${bib.websiteName}. ${bib.url}`;
+        case 'chapter':
+          return `${period(author)} (${bib.year}). ${bib.title}. In ${editors} (${editorLabel}), ${it(bib.bookTitle)} (pp. ${bib.chapterPages}). ${bib.publisher}.`;
+        case 'newspaper':
+          return `${period(author)} (${bib.year}). ${bib.title}. ${it(bib.newspaperName)}${bib.pages ? `, ${bib.pages}` : ''}.`;
+        default:
+          return '';
+      }
+
+    case 'mla':
+      switch (bib.sourceType) {
+        case 'book':
+          return `${period(author)} ${it(bib.title)}. ${bib.publisher}, ${bib.year}.`;
+        case 'journal':
+          return `${period(author)} "${bib.title}." ${it(bib.journalName)}, vol. ${bib.volume}, no. ${bib.issue}, ${bib.year}, pp. ${bib.pages}.`;
+        case 'website':
+          return `${period(author)} "${bib.title}." ${it(bib.websiteName)}, ${bib.organization}, ${new Date(bib.accessDate).toLocaleDateString()}, ${bib.url}.`;
+        case 'chapter':
+          return `${period(author)} "${bib.title}." ${it(bib.bookTitle)}, edited by ${editors}, ${bib.publisher}, ${bib.year}, pp. ${bib.chapterPages}.`;
+        case 'newspaper':
+          return `${period(author)} "${bib.title}." ${it(bib.newspaperName)}, ${bib.year}, p. ${bib.pages}.`;
+        default:
+          return '';
+      }
+
+    case 'chicago': {
+      // Chicago 17th notes-bibliography: the bibliography form, led by the title when there is no author
+      const byline = author ? `${period(author)} ` : '';
+      switch (bib.sourceType) {
+        case 'book':
+          return `${byline}${it(bib.title)}.${bib.edition ? ` ${bib.edition} ed.` : ''} ${bib.city}: ${bib.publisher}, ${bib.year}.${bib.doi ? ` https://doi.org/${bib.doi}.` : ''}`;
+        case 'journal':
+          return `${byline}"${bib.title}." ${it(bib.journalName)} ${bib.volume}, no. ${bib.issue} (${bib.year}): ${bib.pages}.${bib.doi ? ` https://doi.org/${bib.doi}.` : ''}`;
+        case 'website':
+          return `${byline}"${bib.title}." ${bib.websiteName}.${bib.organization && bib.organization !== bib.websiteName ? ` ${bib.organization}.` : ''} Accessed ${formatLongDate(bib.accessDate)}. ${bib.url}.`;
+        case 'chapter':
+          return `${byline}"${bib.title}." In ${it(bib.bookTitle)}, edited by ${editors}, ${bib.chapterPages}. ${bib.city}: ${bib.publisher}, ${bib.year}.`;
+        case 'newspaper':
+          return `${byline}"${bib.title}." ${it(bib.newspaperName)}, ${bib.year}.`;
+        default:
+          return '';
+      }
+    }
+
+    case 'ieee':
+      switch (bib.sourceType) {
+        case 'book':
+          return `${author}, ${it(bib.title)}, ${bib.edition ? `${bib.edition} ed., ` : ''}${bib.city}: ${bib.publisher}, ${bib.year}.`;
+        case 'journal':
+          return `${author}, "${bib.title}," ${it(bib.journalName)}, vol. ${bib.volume}, no. ${bib.issue}, pp. ${bib.pages}, ${bib.year}.`;
+        case 'website':
+          return `${author}, "${bib.title}," ${it(bib.websiteName)}. ${bib.organization}. [Online]. Available: ${bib.url} [Accessed: ${new Date(bib.accessDate).toLocaleDateString()}]`;
+        case 'chapter':
+          return `${author}, "${bib.title}," in ${it(bib.bookTitle)}, ${editors}, ${editorLabel} ${bib.city}: ${bib.publisher}, ${bib.year}, pp. ${bib.chapterPages}.`;
+        case 'newspaper':
+          return `${author}, "${bib.title}," ${it(bib.newspaperName)}, ${bib.year}, p. ${bib.pages}.`;
+        default:
+          return '';
+      }
+
+    default:
+      return '';
+  }
+};
+
+export type NoteForm = 'full' | 'short';
+
+// Chicago shortens titles longer than four words, dropping any subtitle first
+const shortTitle = (title: string) => {
+  const main = title.split(/[:?]\s/)[0].trim();
+  const words = main.split(/\s+/);
+  return words.length > 4 ? words.slice(0, 4).join(' ') : main;
+};
+
+// Chicago 17th notes: the full form for a source's first note, the short form after that.
+// The pinpoint ("12", "par. 4") cites the exact place, standing in for an article's page range.
+const formatMarkedNote = (bib: BibEntry, form: NoteForm, pinpoint: string): string => {
+  const at = pinpoint ? `, ${pinpoint}` : '';
+  if (form === 'short') {
+    const names = formatNoteAuthors(bib.authors, 'short');
+    const title = bib.sourceType === 'book'
+      ? `${it(shortTitle(bib.title))}${at}.`
+      : `"${shortTitle(bib.title)}${pinpoint ? `," ${pinpoint}.` : '."'}`;
+    return names ? `${names}, ${title}` : title;
+  }
+
+  const author = formatNoteAuthors(bib.authors, 'full');
+  const lead = author ? `${author}, ` : '';
+  switch (bib.sourceType) {
+    case 'book':
+      return `${lead}${it(bib.title)}${bib.edition ? `, ${bib.edition} ed.` : ''} (${bib.city}: ${bib.publisher}, ${bib.year})${at}.${bib.doi ? ` https://doi.org/${bib.doi}.` : ''}`;
+    case 'journal':
+      return `${lead}"${bib.title}," ${it(bib.journalName)} ${bib.volume}, no. ${bib.issue} (${bib.year}): ${pinpoint || bib.pages}.${bib.doi ? ` https://doi.org/${bib.doi}.` : ''}`;
+    case 'website':
+      return `${lead}"${bib.title}," ${bib.websiteName}${at}, accessed ${formatLongDate(bib.accessDate)}, ${bib.url}.`;
+    case 'chapter':
+      return `${lead}"${bib.title}," in ${it(bib.bookTitle)}, ed. ${formatEditors(bib.editors, 'chicago')} (${bib.city}: ${bib.publisher}, ${bib.year}), ${pinpoint || bib.chapterPages}.`;
+    case 'newspaper':
+      return `${lead}"${bib.title}," ${it(bib.newspaperName)}, ${bib.year}${at}.`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Splits a marked citation into plain and italic runs, dropping empty runs.
+ */
+const toSegments = (marked: string): CitationSegment[] => {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(marked.matchAll(ITALIC_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ text: marked.slice(lastIndex, index), italic: false });
+    segments.push({ text: match[1], italic: true });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < marked.length) segments.push({ text: marked.slice(lastIndex), italic: false });
+  return segments.filter(segment => segment.text);
+};
+
+export const formatCitationSegments = (bib: BibEntry, style: CitationStyle): CitationSegment[] =>
+  toSegments(formatMarkedCitation(bib, style));
+
+export const formatCitation = (bib: BibEntry, style: CitationStyle): string =>
+  formatCitationSegments(bib, style).map(segment => segment.text).join('');
+
+export const formatNoteSegments = (bib: BibEntry, form: NoteForm, locator: Locator | null = null): CitationSegment[] =>
+  toSegments(formatMarkedNote(bib, form, formatLocator(locator, 'chicago')));
+
+export const formatNote = (bib: BibEntry, form: NoteForm, locator: Locator | null = null): string =>
+  formatNoteSegments(bib, form, locator).map(segment => segment.text).join('');
+
+// Without an author, in-text citations fall back to the short title; article titles are quoted
+const inTextLead = (bib: BibEntry, style: CitationStyle) => {
+  const authors = formatInTextAuthors(bib.authors, style);
+  if (authors) return authors;
+  const title = shortTitle(bib.title);
+  return bib.sourceType === 'book' ? title : `"${title}"`;
+};
+
+/**
+ * The citation that follows a note in the text: "(Smith, 2020, p. 14)" in
+ * APA, "(Smith 14)" in MLA, "(Smith 2020, 14)" in Turabian's author-date form
+ * and "[3, p. 14]" in IEEE, where number is the source's place in first-cited
+ * order. Chicago cites in footnotes instead; see formatNote.
+ */
+export const formatInTextCitation = (
+  bib: BibEntry,
+  style: Exclude<CitationStyle, 'chicago'>,
+  locator: Locator | null,
+  number: number
+): string => {
+  const pinpoint = formatLocator(locator, style);
+  const year = bib.year.trim() || 'n.d.';
+  switch (style) {
+    case 'apa':
+      return `(${[inTextLead(bib, style), year, pinpoint].filter(Boolean).join(', ')})`;
+    case 'mla':
+      return `(${[inTextLead(bib, style), pinpoint].filter(Boolean).join(' ')})`;
+    case 'turabian':
+      return `(${inTextLead(bib, style)} ${year}${pinpoint ? `, ${pinpoint}` : ''})`;
+    case 'ieee':
+      return `[${number}${pinpoint ? `, ${pinpoint}` : ''}]`;
+  }
+};
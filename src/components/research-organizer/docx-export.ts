@@ -0,0 +1,201 @@
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TextRun
+} from 'docx';
+import { formatCitation, formatCitationSegments, formatNoteSegments } from './citations';
+import { isBlockQuote, quoteText } from './entry-kinds';
+import { createInTextCitations, entriesInDocumentOrder, numberSources } from './in-text-citations';
+import { outlineLabel } from './outline';
+import { citedSources, findBibliography } from './sources';
+import type { BibEntry, CitationStyle, Locator, OutlinePoint, ResearchEntry, Source } from './types';
+
+interface DocxExportOptions {
+  thesis: string;
+  outlinePoints: OutlinePoint[];
+  sources: Source[];
+  researchEntries: ResearchEntry[];
+  citationStyle: CitationStyle;
+}
+
+// OOXML measures indents in twentieths of a point (1440 per inch) and font sizes in half-points
+const INCH = 1440;
+const FONT = 'Times New Roman';
+const FONT_SIZE = 24;
+const LINE_SPACING = 360; // 1.5 lines
+
+// Word has six heading levels; deeper outline points reuse the last one
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+// Headings below the top level are indented a quarter inch per level
+const headingStyle = (depth: number) => ({
+  run: { font: FONT, size: FONT_SIZE, bold: true, italics: depth > 0, color: '000000' },
+  paragraph: { spacing: { before: 240, after: 120 }, indent: { left: (INCH / 4) * depth } }
+});
+
+const toRuns = (segments: ReturnType<typeof formatCitationSegments>) =>
+  segments.map(segment => new TextRun({ text: segment.text, italics: segment.italic }));
+
+const citationRuns = (bib: BibEntry, style: CitationStyle) =>
+  toRuns(formatCitationSegments(bib, style));
+
+/**
+ * Numbers Chicago footnotes in document order. A source's first note is the
+ * full note; later notes for the same source use the shortened form.
+ */
+const createFootnotes = () => {
+  const footnotes: Record<number, { children: Paragraph[] }> = {};
+  const cited = new Set<string>();
+
+  const add = (sourceId: string, bib: BibEntry, locator: Locator | null) => {
+    const id = Object.keys(footnotes).length + 1;
+    footnotes[id] = {
+      children: [
+        new Paragraph({ children: toRuns(formatNoteSegments(bib, cited.has(sourceId) ? 'short' : 'full', locator)) })
+      ]
+    };
+    cited.add(sourceId);
+    return new FootnoteReferenceRun(id);
+  };
+
+  return { footnotes, add };
+};
+
+type Footnotes = ReturnType<typeof createFootnotes>;
+
+// Chicago cites each entry in a footnote; the other styles follow it with its in-text citation.
+// Long quotes are set as block quotes, indented a further half inch and without quotation marks.
+const researchParagraphs = (
+  entries: ResearchEntry[],
+  sources: Source[],
+  style: CitationStyle,
+  notes: Footnotes,
+  inText: Map<string, string>,
+  depth: number
+) =>
+  entries.flatMap(entry => {
+    const blockQuote = isBlockQuote(entry.kind, entry.text, style);
+    const indent = { left: (INCH / 4) * (depth + 1) + (blockQuote ? INCH / 2 : 0) };
+    const text = new TextRun(entry.kind === 'quote' && !blockQuote ? quoteText(entry.text) : entry.text);
+    const bib = findBibliography(sources, entry.sourceId);
+    if (!bib) return [new Paragraph({ children: [text], indent })];
+
+    return [
+      new Paragraph({
+        children: [
+          text,
+          style === 'chicago'
+            ? notes.add(entry.sourceId, bib, entry.locator)
+            : new TextRun(` ${inText.get(entry.id) ?? ''}`)
+        ],
+        indent,
+        spacing: { after: 240 }
+      })
+    ];
+  });
+
+/**
+ * Builds the paper outline as a genuine .docx: headings use Word's built-in
+ * heading styles, bibliography entries get a half-inch hanging indent, and
+ * every page carries a centered page number in the footer. Outline points of
+ * any depth map onto Word's heading levels, with research under each heading.
+ * Chicago exports cite entries in numbered footnotes; the other styles use
+ * in-text citations, and IEEE numbers its reference list in first-cited order.
+ */
+export const buildDocx = async ({
+  thesis,
+  outlinePoints,
+  sources,
+  researchEntries,
+  citationStyle
+}: DocxExportOptions): Promise<Blob> => {
+  const entriesFor = (pointId: string) => researchEntries.filter(entry => entry.pointId === pointId);
+  const notes = createFootnotes();
+  const inText = createInTextCitations(outlinePoints, sources, researchEntries, citationStyle);
+
+  const outlineParagraphs = (points: OutlinePoint[], depth: number): Paragraph[] =>
+    points.flatMap((point, index) => [
+      new Paragraph({
+        text: `${outlineLabel(index, depth)} ${point.text}`,
+        heading: HEADING_LEVELS[Math.min(depth, HEADING_LEVELS.length - 1)]
+      }),
+      ...researchParagraphs(entriesFor(point.id), sources, citationStyle, notes, inText, depth),
+      ...outlineParagraphs(point.children, depth + 1)
+    ]);
+
+  // One bibliography line per cited source, sorted by its formatted text, or for IEEE by its number
+  const numbers = numberSources(entriesInDocumentOrder(outlinePoints, researchEntries), sources);
+  const bibliographyEntries = citedSources(sources, researchEntries)
+    .map(source => ({ number: citationStyle === 'ieee' ? numbers.get(source.id) ?? 0 : 0, bib: source.bibliography }))
+    .sort((a, b) => citationStyle === 'ieee'
+      ? a.number - b.number
+      : formatCitation(a.bib, citationStyle).localeCompare(formatCitation(b.bib, citationStyle)));
+
+  const document = new Document({
+    footnotes: notes.footnotes,
+    styles: {
+      default: {
+        document: {
+          run: { font: FONT, size: FONT_SIZE },
+          paragraph: { spacing: { line: LINE_SPACING } }
+        },
+        title: {
+          run: { font: FONT, size: FONT_SIZE, bold: true, color: '000000' },
+          paragraph: { alignment: AlignmentType.CENTER, spacing: { after: 240 } }
+        },
+        heading1: headingStyle(0),
+        heading2: headingStyle(1),
+        heading3: headingStyle(2),
+        heading4: headingStyle(3),
+        heading5: headingStyle(4),
+        heading6: headingStyle(5)
+      }
+    },
+    sections: [
+      {
+        properties: {
+          page: { margin: { top: INCH, right: INCH, bottom: INCH, left: INCH } }
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [new TextRun({ children: [PageNumber.CURRENT] })]
+              })
+            ]
+          })
+        },
+        children: [
+          new Paragraph({ text: 'Research Paper Outline', heading: HeadingLevel.TITLE }),
+          new Paragraph({
+            children: [new TextRun({ text: 'Thesis: ', bold: true }), new TextRun(thesis)],
+            spacing: { after: 240 }
+          }),
+          ...outlineParagraphs(outlinePoints, 0),
+          new Paragraph({ text: 'Bibliography', heading: HeadingLevel.HEADING_1, pageBreakBefore: true }),
+          ...bibliographyEntries.map(({ number, bib }) => new Paragraph({
+            children: [...(number ? [new TextRun(`[${number}] `)] : []), ...citationRuns(bib, citationStyle)],
+            indent: { left: INCH / 2, hanging: INCH / 2 },
+            spacing: { after: 240 }
+          }))
+        ]
+      }
+    ]
+  });
+
+  return Packer.toBlob(document);
+};
@@ -0,0 +1,71 @@
+import type { CitationStyle, EntryKind, Locator, LocatorType } from './types';
+
+export const ENTRY_KINDS: EntryKind[] = ['quote', 'paraphrase', 'summary'];
+
+export const ENTRY_KIND_LABELS: Record<EntryKind, string> = {
+  quote: 'Direct Quote',
+  paraphrase: 'Paraphrase',
+  summary: 'Summary'
+};
+
+// Notes saved before entries had a kind are treated as the user's own words
+export const DEFAULT_ENTRY_KIND: EntryKind = 'paraphrase';
+
+export const LOCATOR_TYPES: LocatorType[] = ['page', 'pages', 'paragraph', 'timestamp'];
+
+export const LOCATOR_LABELS: Record<LocatorType, { label: string; placeholder: string }> = {
+  page: { label: 'Page', placeholder: '12' },
+  pages: { label: 'Page range', placeholder: '12-15' },
+  paragraph: { label: 'Paragraph', placeholder: '4' },
+  timestamp: { label: 'Timestamp', placeholder: '1:04:30' }
+};
+
+// What each style writes before a locator. The note styles and MLA give bare page numbers.
+const LOCATOR_PREFIXES: Record<CitationStyle, Record<LocatorType, string>> = {
+  apa: { page: 'p. ', pages: 'pp. ', paragraph: 'para. ', timestamp: '' },
+  ieee: { page: 'p. ', pages: 'pp. ', paragraph: 'para. ', timestamp: '' },
+  mla: { page: '', pages: '', paragraph: 'par. ', timestamp: '' },
+  chicago: { page: '', pages: '', paragraph: 'par. ', timestamp: '' },
+  turabian: { page: '', pages: '', paragraph: 'par. ', timestamp: '' }
+};
+
+// Quotes at least this many words long are set as block quotes. APA sets the
+// limit at 40 words, MLA at four lines (about 50 words) and Chicago at 100
+// words; IEEE, which has no rule of its own, follows APA.
+const BLOCK_QUOTE_WORDS: Record<CitationStyle, number> = {
+  apa: 40,
+  ieee: 40,
+  mla: 50,
+  chicago: 100,
+  turabian: 100
+};
+
+export const hasLocator = (locator: Locator | null): locator is Locator =>
+  locator !== null && locator.value.trim() !== '';
+
+/**
+ * A locator as the style writes it in a citation: "pp. 12–15" in APA,
+ * "12–15" in MLA and Chicago. Ranges get an en dash. Empty when there is no
+ * locator.
+ */
+export const formatLocator = (locator: Locator | null, style: CitationStyle) => {
+  if (!hasLocator(locator)) return '';
+  const value = locator.type === 'pages'
+    ? locator.value.trim().replace(/\s*[-–—]+\s*/g, '–')
+    : locator.value.trim();
+  return `${LOCATOR_PREFIXES[style][locator.type]}${value}`;
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export const isBlockQuote = (kind: EntryKind, text: string, style: CitationStyle) =>
+  kind === 'quote' && countWords(text) >= BLOCK_QUOTE_WORDS[style];
+
+// Wraps a run-in quote in quotation marks, unless the note already has them
+export const quoteText = (text: string) => {
+  const trimmed = text.trim();
+  return /^"[\s\S]*"$/.test(trimmed) ? trimmed : `"${trimmed}"`;
+};
+
+// A locator spelled out the same way in every style, for showing beside a note
+export const describeLocator = (locator: Locator | null) => formatLocator(locator, 'apa');
@@ -0,0 +1,51 @@
+import type { ProjectData } from './types';
+
+// The parts of a project that undo and redo cover. The citation style is a
+// display preference rather than content, so it is left out.
+export type HistorySnapshot = Pick<ProjectData, 'thesis' | 'outlinePoints' | 'sources' | 'tags' | 'researchEntries'>;
+
+// Snapshots share every unchanged array with their neighbours, so a hundred of
+// them cost little. History lives in memory only and is never saved.
+export const HISTORY_LIMIT = 100;
+
+export interface History {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+}
+
+export const emptyHistory = (): History => ({ past: [], future: [] });
+
+export const sameSnapshot = (a: HistorySnapshot, b: HistorySnapshot) =>
+  a.thesis === b.thesis &&
+  a.outlinePoints === b.outlinePoints &&
+  a.sources === b.sources &&
+  a.tags === b.tags &&
+  a.researchEntries === b.researchEntries;
+
+// Records the state before a change. A new change discards anything that was undone.
+export const recordChange = (history: History, previous: HistorySnapshot): History => ({
+  past: [...history.past, previous].slice(-HISTORY_LIMIT),
+  future: []
+});
+
+/**
+ * Steps back one change. Returns the snapshot to restore and the updated
+ * history, or null when there is nothing to undo.
+ */
+export const undo = (history: History, current: HistorySnapshot) => {
+  const snapshot = history.past[history.past.length - 1];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] }
+  };
+};
+
+export const redo = (history: History, current: HistorySnapshot) => {
+  const [snapshot, ...future] = history.future;
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    history: { past: [...history.past, current].slice(-HISTORY_LIMIT), future }
+  };
+};
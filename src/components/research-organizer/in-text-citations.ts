@@ -0,0 +1,49 @@
+import { formatInTextCitation, formatNote } from './citations';
+import { flattenOutline } from './outline';
+import { findBibliography } from './sources';
+import type { CitationStyle, OutlinePoint, ResearchEntry, Source } from './types';
+
+// Research entries in the order the paper prints them: point by point, each point's in the order added
+export const entriesInDocumentOrder = (outlinePoints: OutlinePoint[], researchEntries: ResearchEntry[]) =>
+  flattenOutline(outlinePoints).flatMap(({ point }) => researchEntries.filter(entry => entry.pointId === point.id));
+
+// Numbers sources 1, 2, 3… in the order the paper first cites them, as IEEE does
+export const numberSources = (orderedEntries: ResearchEntry[], sources: Source[]) => {
+  const numbers = new Map<string, number>();
+  orderedEntries.forEach(entry => {
+    if (!numbers.has(entry.sourceId) && findBibliography(sources, entry.sourceId)) {
+      numbers.set(entry.sourceId, numbers.size + 1);
+    }
+  });
+  return numbers;
+};
+
+/**
+ * Every entry's in-text citation keyed by entry id, worked out in document
+ * order so IEEE numbers and Chicago's full and shortened notes match the
+ * export. For Chicago the citation is the text of the entry's footnote.
+ * Entries whose source is missing get none.
+ */
+export const createInTextCitations = (
+  outlinePoints: OutlinePoint[],
+  sources: Source[],
+  researchEntries: ResearchEntry[],
+  style: CitationStyle
+) => {
+  const ordered = entriesInDocumentOrder(outlinePoints, researchEntries);
+  const numbers = numberSources(ordered, sources);
+  const noted = new Set<string>();
+  const citations = new Map<string, string>();
+
+  ordered.forEach(entry => {
+    const bib = findBibliography(sources, entry.sourceId);
+    if (!bib) return;
+    if (style === 'chicago') {
+      citations.set(entry.id, formatNote(bib, noted.has(entry.sourceId) ? 'short' : 'full', entry.locator));
+      noted.add(entry.sourceId);
+    } else {
+      citations.set(entry.id, formatInTextCitation(bib, style, entry.locator, numbers.get(entry.sourceId) ?? 0));
+    }
+  });
+  return citations;
+};
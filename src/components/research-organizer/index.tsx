@@ -1,111 +1,172 @@
 "use client"
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Coffee, PlusCircle, Save, FileDown, X, ArrowUp, ArrowDown } from 'lucide-react';
+import { Coffee, PlusCircle, Save, FileDown, Download, Upload, BookMarked, X, Pencil, Undo2, Redo2 } from 'lucide-react';
 import ImageTextExtractor from '../image-text-extractor';
+import ProjectSwitcher from '../project-switcher';
+import ReferenceImporter from '../reference-importer';
+import ContributorInput from '../contributor-input';
+import OutlineTree from '../outline-tree';
+import ResearchSearch from '../research-search';
+import TagEditor from '../tag-editor';
+import TagPicker, { TagChip } from '../tag-picker';
+import EntryKindFields, { type EntryDetails } from '../entry-kind-fields';
+import CopyButton from '../copy-button';
+import type {
+  SourceType,
+  CitationStyle,
+  BibEntry,
+  BibEntryKey,
+  ResearchEntry,
+  ExtractedNote,
+  Source,
+  Tag,
+  TagColor,
+  OutlinePoint,
+  ProjectMeta,
+  ProjectData
+} from './types';
+import {
+  DEFAULT_PROJECT_NAME,
+  emptyProjectData,
+  initializeProjects,
+  saveProjectIndex,
+  loadCurrentProjectId,
+  saveCurrentProjectId,
+  loadProjectData,
+  saveProjectField,
+  saveProjectData,
+  deleteProjectData,
+  createProjectMeta
+} from './projects';
+import {
+  createProjectBundle,
+  bundleFileName,
+  parseProjectBundle,
+  bundleProjectData,
+  mergeProjectData,
+  type BundleParseResult
+} from './backup';
+import { createEmptyBibEntry, getSourceTypeFields } from './bib-entry';
+import { formatCitation } from './citations';
+import { buildDocx } from './docx-export';
+import { BIBLIOGRAPHY_FORMATS, exportBibliography, type BibliographyFormat } from './reference-export';
+import {
+  emptyHistory,
+  recordChange,
+  redo,
+  sameSnapshot,
+  undo,
+  type History,
+  type HistorySnapshot
+} from './history';
+import {
+  DEFAULT_ENTRY_KIND,
+  ENTRY_KIND_LABELS,
+  describeLocator,
+  hasLocator,
+  isBlockQuote,
+  quoteText
+} from './entry-kinds';
+import { createInTextCitations } from './in-text-citations';
+import { countCitations, createSourceIndex, describeSource, findBibliography } from './sources';
+import { createTag, groupEntriesByTag, removeTagFromEntries } from './tags';
+import {
+  addOutlinePoint,
+  findOutlinePoint,
+  flattenOutline,
+  moveOutlinePoint,
+  outlineLabel,
+  removeOutlinePoint,
+  renameOutlinePoint,
+  shiftOutlinePoint,
+  subtreeIds,
+  type DropPosition,
+  type OutlineMove
+} from './outline';
+import { getStorageEstimate } from '@/lib/storage';
+import { downloadFile } from '@/lib/utils';
 
-// Type definitions
-type SourceType = 'book' | 'journal' | 'website' | 'newspaper' | 'chapter';
-type CitationStyle = 'turabian' | 'apa' | 'mla' | 'chicago' | 'ieee';
-type BibEntryKey = keyof BibEntry;
-
-interface BibEntry {
-  sourceType: SourceType;
-  author: string;
-  title: string;
-  year: string;
-  doi: string;
-  url: string;
-  accessDate: string;
-  publisher: string;
-  city: string;
-  edition: string;
-  journalName: string;
-  volume: string;
-  issue: string;
-  pages: string;
-  websiteName: string;
-  organization: string;
-  newspaperName: string;
-  bookTitle: string;
-  editors: string;
-  chapterPages: string;
-}
-
-interface ResearchEntry {
-  id: string;
-  pointId: string;
-  text: string;
-  bibliography: BibEntry;
-}
-
-interface OutlinePoint {
-  id: string;
-  text: string;
-  level: 'main' | 'sub';
-  children: OutlinePoint[];
-}
-
-const calculateStorageSize = (thesis: string, outlinePoints: any[], researchEntries: any[]) => {
-  const data = JSON.stringify({
-    thesis,
-    outlinePoints,
-    researchEntries
-  });
-  return (new Blob([data]).size) / (1024 * 1024);
-};
+// Warn once this share of the browser's storage quota is in use
+const STORAGE_WARNING_RATIO = 0.9;
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Select value for "type in a new source" in the source picker
+const NEW_SOURCE = 'new';
+// Select value for adding a point at the top level of the outline
+const TOP_LEVEL = 'top';
+
+// Select value for showing entries with any tag, or none, in Review
+const ALL_TAGS = 'all';
 
-const STORAGE_LIMIT = 4.5;
-const MAX_STORAGE = 5;
+// Keystrokes in one field closer together than this are undone as one change
+const TYPING_GROUP_MS = 1000;
+
+// Text fields keep their own native undo, so the organizer's shortcuts leave them alone
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
 const ResearchPaperOrganizer = () => {
   // State management
-  const currentDate = new Date().toISOString().split('T')[0];
   const [thesis, setThesis] = useState('');
   const [outlinePoints, setOutlinePoints] = useState<OutlinePoint[]>([]);
   const [currentPointText, setCurrentPointText] = useState('');
-  type Level = 'main' | 'sub';
-  const [currentLevel, setCurrentLevel] = useState<Level>('main');
+  // The point new outline points are added under, or '' for the top level
   const [selectedParentId, setSelectedParentId] = useState('');
   const [selectedPointId, setSelectedPointId] = useState('');
   const [researchText, setResearchText] = useState('');
+  const [sources, setSources] = useState<Source[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  // Tags, kind and locator for the next research entry
+  const [researchTagIds, setResearchTagIds] = useState<string[]>([]);
+  const [researchDetails, setResearchDetails] = useState<EntryDetails>({ kind: DEFAULT_ENTRY_KIND, locator: null });
   const [researchEntries, setResearchEntries] = useState<ResearchEntry[]>([]);
   const [storageWarning, setStorageWarning] = useState<string>('');
   const [storagePercentage, setStoragePercentage] = useState(0);
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
   const [citationStyle, setCitationStyle] = useState<CitationStyle>('turabian');
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState('');
+  const [bibliographyFormat, setBibliographyFormat] = useState<BibliographyFormat>('bibtex');
+  const [pendingImport, setPendingImport] = useState<BundleParseResult | null>(null);
+  // Review shows entries under their outline points, or grouped by tag
+  const [reviewView, setReviewView] = useState<'outline' | 'tags'>('outline');
+  const [reviewTagId, setReviewTagId] = useState(ALL_TAGS);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // Empty bibliography entry template
-  const emptyBibEntry: BibEntry = {
-    sourceType: 'book',
-    author: '',
-    title: '',
-    year: '',
-    doi: '',
-    url: '',
-    accessDate: currentDate,
-    publisher: '',
-    city: '',
-    edition: '',
-    journalName: '',
-    volume: '',
-    issue: '',
-    pages: '',
-    websiteName: '',
-    organization: '',
-    newspaperName: '',
-    bookTitle: '',
-    editors: '',
-    chapterPages: ''
-  };
+  // Undo history. The state after a load or an undo is remembered in skipSnapshot
+  // so that setting it isn't recorded as a new change.
+  const [history, setHistory] = useState<History>(emptyHistory);
+  const lastSnapshot = useRef<HistorySnapshot | null>(null);
+  const skipSnapshot = useRef<HistorySnapshot | null>(null);
+  // The field the next change is typed into, set by handlers that apply keystrokes as they come
+  const typingField = useRef<string | null>(null);
+  const lastTypingEdit = useRef<{ field: string; at: number } | null>(null);
 
   // Bibliography state
-  const [bibEntry, setBibEntry] = useState<BibEntry>(emptyBibEntry);
+  const [bibEntry, setBibEntry] = useState<BibEntry>(createEmptyBibEntry);
+  // The library source shown in the form, or '' while entering a new one
+  const [selectedSourceId, setSelectedSourceId] = useState('');
+  // The research entry being edited in place, with its unsaved changes
+  const [entryDraft, setEntryDraft] = useState<{
+    id: string;
+    text: string;
+    tagIds: string[];
+    details: EntryDetails;
+    bibliography: BibEntry;
+  } | null>(null);
+  // The entry a search result jumped to, highlighted until the highlight fades
+  const [jumpedEntryId, setJumpedEntryId] = useState('');
 
   // Styles
   const styles = {
@@ -122,133 +183,310 @@ const ResearchPaperOrganizer = () => {
     deleteButton: "text-red-500 hover:text-red-700",
     bibliographySection: "bg-white p-4 rounded-lg border border-[#D4BFA0]"
   };
-  // Load data on mount
-  useEffect(() => {
-    try {
-      const savedThesis = localStorage.getItem('thesis');
-      const savedOutlinePoints = localStorage.getItem('outlinePoints');
-      const savedResearchEntries = localStorage.getItem('researchEntries');
-
-      if (savedThesis) setThesis(savedThesis);
-      if (savedOutlinePoints) setOutlinePoints(JSON.parse(savedOutlinePoints));
-      if (savedResearchEntries) setResearchEntries(JSON.parse(savedResearchEntries));
-    } catch (error) {
-      console.error('Error loading saved data:', error);
-    }
-  }, []);
-
-  // Check storage size
-  useEffect(() => {
-    const currentSize = calculateStorageSize(thesis, outlinePoints, researchEntries);
-    const percentage = (currentSize / MAX_STORAGE) * 100;
+  const refreshStorageUsage = useCallback(async () => {
+    const { usage, quota } = await getStorageEstimate();
+    const percentage = (usage / quota) * 100;
+    setStorageUsage({ usage, quota });
     setStoragePercentage(Math.min(percentage, 100));
 
-    if (currentSize >= MAX_STORAGE) {
+    if (usage >= quota) {
       setStorageWarning("Storage limit reached. Please export your work to continue.");
-    } else if (currentSize >= STORAGE_LIMIT) {
+    } else if (usage >= quota * STORAGE_WARNING_RATIO) {
       setStorageWarning(`You're approaching the storage limit. Consider exporting your work to ensure nothing is lost.`);
     } else {
       setStorageWarning("");
     }
-  }, [thesis, outlinePoints, researchEntries]);
+  }, []);
+
+  // Load the project index on mount, migrating data from earlier versions if needed
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const projectIndex = await initializeProjects();
+        const savedProjectId = await loadCurrentProjectId();
+        const project = projectIndex.find(p => p.id === savedProjectId) || projectIndex[0];
+        const data = await loadProjectData(project.id);
+
+        setProjects(projectIndex);
+        skipSnapshot.current = data;
+        setThesis(data.thesis);
+        setOutlinePoints(data.outlinePoints);
+        setSources(data.sources);
+        setTags(data.tags);
+        setResearchEntries(data.researchEntries);
+        setCitationStyle(data.citationStyle);
+        setCurrentProjectId(project.id);
+        await refreshStorageUsage();
+      } catch (error) {
+        console.error('Error loading saved data:', error);
+      }
+    };
+
+    loadProjects();
+  }, [refreshStorageUsage]);
+
+  const touchProject = useCallback((projectId: string) => {
+    const now = new Date().toISOString();
+    setProjects(prev => prev.map(project =>
+      project.id === projectId ? { ...project, modifiedAt: now } : project
+    ));
+  }, []);
+
+  const handleSaveError = useCallback((error: unknown) => {
+    console.error('Error saving data:', error);
+    setStorageWarning('Unable to save changes. Please export your work.');
+  }, []);
 
   // Save effects
   useEffect(() => {
-    try {
-      localStorage.setItem('thesis', thesis);
-    } catch (error) {
-      setStorageWarning('Unable to save changes. Please export your work.');
+    if (projects.length === 0) return;
+    saveProjectIndex(projects).catch(handleSaveError);
+  }, [projects, handleSaveError]);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    saveCurrentProjectId(currentProjectId).catch(handleSaveError);
+  }, [currentProjectId, handleSaveError]);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    saveProjectField(currentProjectId, 'thesis', thesis)
+      .then(changed => {
+        if (changed) {
+          touchProject(currentProjectId);
+          return refreshStorageUsage();
+        }
+      })
+      .catch(handleSaveError);
+  }, [currentProjectId, thesis, touchProject, refreshStorageUsage, handleSaveError]);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    saveProjectField(currentProjectId, 'outlinePoints', outlinePoints)
+      .then(changed => {
+        if (changed) {
+          touchProject(currentProjectId);
+          return refreshStorageUsage();
+        }
+      })
+      .catch(handleSaveError);
+  }, [currentProjectId, outlinePoints, touchProject, refreshStorageUsage, handleSaveError]);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    saveProjectField(currentProjectId, 'sources', sources)
+      .then(changed => {
+        if (changed) {
+          touchProject(currentProjectId);
+          return refreshStorageUsage();
+        }
+      })
+      .catch(handleSaveError);
+  }, [currentProjectId, sources, touchProject, refreshStorageUsage, handleSaveError]);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    saveProjectField(currentProjectId, 'tags', tags)
+      .then(changed => {
+        if (changed) {
+          touchProject(currentProjectId);
+          return refreshStorageUsage();
+        }
+      })
+      .catch(handleSaveError);
+  }, [currentProjectId, tags, touchProject, refreshStorageUsage, handleSaveError]);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    saveProjectField(currentProjectId, 'researchEntries', researchEntries)
+      .then(changed => {
+        if (changed) {
+          touchProject(currentProjectId);
+          return refreshStorageUsage();
+        }
+      })
+      .catch(handleSaveError);
+  }, [currentProjectId, researchEntries, touchProject, refreshStorageUsage, handleSaveError]);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    saveProjectField(currentProjectId, 'citationStyle', citationStyle)
+      .then(changed => {
+        if (changed) touchProject(currentProjectId);
+      })
+      .catch(handleSaveError);
+  }, [currentProjectId, citationStyle, touchProject, handleSaveError]);
+
+  // Record each change to the project's content so it can be undone
+  useEffect(() => {
+    const current = { thesis, outlinePoints, sources, tags, researchEntries };
+    const previous = lastSnapshot.current;
+    lastSnapshot.current = current;
+
+    const skip = skipSnapshot.current;
+    skipSnapshot.current = null;
+    const field = typingField.current;
+    typingField.current = null;
+    if (!previous || sameSnapshot(previous, current) || (skip && sameSnapshot(skip, current))) return;
+
+    // Typing in the thesis or a source's fields changes them on every keystroke;
+    // a burst of typing in one field is undone as one change
+    const now = Date.now();
+    const last = lastTypingEdit.current;
+    const continuesBurst = field !== null && last?.field === field && now - last.at < TYPING_GROUP_MS;
+    lastTypingEdit.current = field === null ? null : { field, at: now };
+    if (!continuesBurst) setHistory(prev => recordChange(prev, previous));
+  }, [thesis, outlinePoints, sources, tags, researchEntries]);
+
+  const restoreSnapshot = (snapshot: HistorySnapshot) => {
+    skipSnapshot.current = snapshot;
+    // Typing after an undo or redo starts a change of its own
+    lastTypingEdit.current = null;
+    setThesis(snapshot.thesis);
+    setOutlinePoints(snapshot.outlinePoints);
+    setSources(snapshot.sources);
+    setTags(snapshot.tags);
+    setResearchEntries(snapshot.researchEntries);
+
+    // The source shown in the form may have changed or gone away
+    if (selectedSourceId) {
+      const bibliography = findBibliography(snapshot.sources, selectedSourceId);
+      setSelectedSourceId(bibliography ? selectedSourceId : '');
+      if (bibliography) setBibEntry({ ...bibliography });
     }
-  }, [thesis]);
+    setResearchTagIds(ids => ids.filter(id => snapshot.tags.some(tag => tag.id === id)));
+    setEntryDraft(null);
+  };
+
+  const handleUndo = () => {
+    const step = undo(history, { thesis, outlinePoints, sources, tags, researchEntries });
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.snapshot);
+  };
+
+  const handleRedo = () => {
+    const step = redo(history, { thesis, outlinePoints, sources, tags, researchEntries });
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.snapshot);
+  };
 
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on macOS)
   useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Bring the entry a search result points at into view, then let its highlight fade
+  useEffect(() => {
+    if (!jumpedEntryId) return;
+    document.getElementById(`entry-${jumpedEntryId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setJumpedEntryId(''), 2000);
+    return () => clearTimeout(timer);
+  }, [jumpedEntryId]);
+
+  // Project handlers
+  const openProject = (projectId: string, data: ProjectData) => {
+    // Each project starts with a fresh history
+    skipSnapshot.current = data;
+    lastTypingEdit.current = null;
+    setHistory(emptyHistory());
+    setThesis(data.thesis);
+    setOutlinePoints(data.outlinePoints);
+    setSources(data.sources);
+    setTags(data.tags);
+    setResearchEntries(data.researchEntries);
+    setCitationStyle(data.citationStyle);
+    setSelectedParentId('');
+    setSelectedPointId('');
+    setSelectedSourceId('');
+    setBibEntry(createEmptyBibEntry());
+    setResearchTagIds([]);
+    setReviewTagId(ALL_TAGS);
+    setEntryDraft(null);
+    setCurrentProjectId(projectId);
+  };
+
+  const handleSelectProject = async (projectId: string) => {
+    if (projectId === currentProjectId) return;
     try {
-      localStorage.setItem('outlinePoints', JSON.stringify(outlinePoints));
+      openProject(projectId, await loadProjectData(projectId));
     } catch (error) {
-      setStorageWarning('Unable to save changes. Please export your work.');
+      console.error('Error loading project:', error);
     }
-  }, [outlinePoints]);
+  };
 
-  useEffect(() => {
+  const addProject = async (project: ProjectMeta, data: ProjectData) => {
     try {
-      localStorage.setItem('researchEntries', JSON.stringify(researchEntries));
+      await saveProjectData(project.id, data);
     } catch (error) {
-      setStorageWarning('Unable to save changes. Please export your work.');
+      handleSaveError(error);
+      return;
     }
-  }, [researchEntries]);
-  // Function to format citations for each style
-  const formatCitation = (bib: BibEntry, style: CitationStyle): string => {
-    switch (style) {
-      case 'turabian':
-        switch (bib.sourceType) {
-          case 'book':
-            return `${bib.author}. ${bib.title}. ${bib.city}: ${bib.publisher}${bib.edition ? `, ${bib.edition} edition` : ''}, ${bib.year}.${bib.doi ? ` DOI: ${bib.doi}` : ''}`;
-          case 'journal':
-            return `${bib.author}. "${bib.title}." ${bib.journalName} ${bib.volume}, no. ${bib.issue} (${bib.year}): ${bib.pages}.${bib.doi ? ` DOI: ${bib.doi}` : ''}`;
-          case 'website':
-            return `${bib.author}. "${bib.title}." ${bib.websiteName}. ${bib.organization}. ${bib.url} (accessed ${new Date(bib.accessDate).toLocaleDateString()}).`;
-          case 'chapter':
-            return `${bib.author}. "${bib.title}." In ${bib.bookTitle}, edited by ${bib.editors}, ${bib.chapterPages}. ${bib.city}: ${bib.publisher}, ${bib.year}.`;
-          case 'newspaper':
-            return `${bib.author}. "${bib.title}." ${bib.newspaperName}, ${bib.year}${bib.pages ? `, ${bib.pages}` : ''}.`;
-          default:
-            return '';
-        }
+    setProjects(prev => [...prev, project]);
+    openProject(project.id, data);
+    refreshStorageUsage();
+  };
 
-      case 'apa':
-        switch (bib.sourceType) {
-          case 'book':
-            return `${bib.author}. (${bib.year}). ${bib.title}${bib.edition ? ` (${bib.edition} ed.)` : ''}. ${bib.publisher}.${bib.doi ? ` https://doi.org/${bib.doi}` : ''}`;
-          case 'journal':
-            return `${bib.author}. (${bib.year}). ${bib.title}. ${bib.journalName}, ${bib.volume}(${bib.issue}), ${bib.pages}.${bib.doi ? ` https://doi.org/${bib.doi}` : ''}`;
-          case 'website':
-            return `${bib.author}. (${bib.year}). ${bib.title}. ${bib.websiteName}. ${bib.url}`;
-          case 'chapter':
-            return `${bib.author}. (${bib.year}). ${bib.title}. In ${bib.editors} (Ed.), ${bib.bookTitle} (pp. ${bib.chapterPages}). ${bib.publisher}.`;
-          case 'newspaper':
-            return `${bib.author}. (${bib.year}). ${bib.title}. ${bib.newspaperName}${bib.pages ? `, ${bib.pages}` : ''}.`;
-          default:
-            return '';
-        }
+  const handleCreateProject = (name: string) => {
+    addProject(createProjectMeta(name), emptyProjectData());
+  };
 
-      case 'mla':
-        switch (bib.sourceType) {
-          case 'book':
-            return `${bib.author}. ${bib.title}. ${bib.publisher}, ${bib.year}.`;
-          case 'journal':
-            return `${bib.author}. "${bib.title}." ${bib.journalName}, vol. ${bib.volume}, no. ${bib.issue}, ${bib.year}, pp. ${bib.pages}.`;
-          case 'website':
-            return `${bib.author}. "${bib.title}." ${bib.websiteName}, ${bib.organization}, ${new Date(bib.accessDate).toLocaleDateString()}, ${bib.url}.`;
-          case 'chapter':
-            return `${bib.author}. "${bib.title}." ${bib.bookTitle}, edited by ${bib.editors}, ${bib.publisher}, ${bib.year}, pp. ${bib.chapterPages}.`;
-          case 'newspaper':
-            return `${bib.author}. "${bib.title}." ${bib.newspaperName}, ${bib.year}, p. ${bib.pages}.`;
-          default:
-            return '';
-        }
+  const handleRenameProject = (projectId: string, name: string) => {
+    const now = new Date().toISOString();
+    setProjects(projects.map(project =>
+      project.id === projectId ? { ...project, name, modifiedAt: now } : project
+    ));
+  };
 
-      case 'chicago':
-        // Similar to Turabian but with slight variations
-        return formatCitation(bib, 'turabian');
-
-      case 'ieee':
-        switch (bib.sourceType) {
-          case 'book':
-            return `${bib.author}, ${bib.title}, ${bib.edition ? `${bib.edition} ed., ` : ''}${bib.city}: ${bib.publisher}, ${bib.year}.`;
-          case 'journal':
-            return `${bib.author}, "${bib.title}," ${bib.journalName}, vol. ${bib.volume}, no. ${bib.issue}, pp. ${bib.pages}, ${bib.year}.`;
-          case 'website':
-            return `${bib.author}, "${bib.title}," ${bib.websiteName}. ${bib.organization}. [Online]. Available: ${bib.url} [Accessed: ${new Date(bib.accessDate).toLocaleDateString()}]`;
-          case 'chapter':
-            return `${bib.author}, "${bib.title}," in ${bib.bookTitle}, ${bib.editors}, Ed. ${bib.city}: ${bib.publisher}, ${bib.year}, pp. ${bib.chapterPages}.`;
-          case 'newspaper':
-            return `${bib.author}, "${bib.title}," ${bib.newspaperName}, ${bib.year}, p. ${bib.pages}.`;
-          default:
-            return '';
-        }
+  const handleDuplicateProject = async (projectId: string) => {
+    const source = projects.find(project => project.id === projectId);
+    if (!source) return;
 
-      default:
-        return '';
+    let data: ProjectData;
+    try {
+      data = projectId === currentProjectId
+        ? { thesis, outlinePoints, sources, tags, researchEntries, citationStyle }
+        : await loadProjectData(projectId);
+    } catch (error) {
+      handleSaveError(error);
+      return;
+    }
+    await addProject(createProjectMeta(`${source.name} (copy)`), structuredClone(data));
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+    try {
+      await deleteProjectData(projectId);
+      let remaining = projects.filter(project => project.id !== projectId);
+
+      // Always keep at least one project to work in
+      if (remaining.length === 0) {
+        const project = createProjectMeta(DEFAULT_PROJECT_NAME);
+        await saveProjectData(project.id, emptyProjectData());
+        remaining = [project];
+      }
+
+      setProjects(remaining);
+      if (projectId === currentProjectId) {
+        openProject(remaining[0].id, await loadProjectData(remaining[0].id));
+      }
+      await refreshStorageUsage();
+    } catch (error) {
+      handleSaveError(error);
     }
   };
 
@@ -256,218 +494,392 @@ const ResearchPaperOrganizer = () => {
   const handleAddPoint = () => {
     if (!currentPointText.trim()) return;
 
-    const newPoint = {
+    const newPoint: OutlinePoint = {
       id: Date.now().toString(),
       text: currentPointText,
-      level: currentLevel,
+      level: selectedParentId ? 'sub' : 'main',
       children: []
     };
 
-    if (currentLevel === 'main') {
-      setOutlinePoints([...outlinePoints, newPoint]);
+    setOutlinePoints(addOutlinePoint(outlinePoints, selectedParentId || null, newPoint));
+    setCurrentPointText('');
+  };
+
+  // Deleting a point deletes everything beneath it, along with their research
+  const handleDeletePoint = (pointId: string) => {
+    const point = findOutlinePoint(outlinePoints, pointId);
+    if (!point) return;
+
+    const removedIds = new Set(subtreeIds(point));
+    setOutlinePoints(removeOutlinePoint(outlinePoints, pointId));
+    setResearchEntries(researchEntries.filter(entry => !removedIds.has(entry.pointId)));
+    if (removedIds.has(selectedParentId)) setSelectedParentId('');
+    if (removedIds.has(selectedPointId)) setSelectedPointId('');
+  };
+
+  const handleMovePoint = (pointId: string, targetId: string, position: DropPosition) => {
+    setOutlinePoints(moveOutlinePoint(outlinePoints, pointId, targetId, position));
+  };
+
+  const handleRenamePoint = (pointId: string, text: string) => {
+    setOutlinePoints(renameOutlinePoint(outlinePoints, pointId, text));
+  };
+
+  const handleShiftPoint = (pointId: string, move: OutlineMove) => {
+    setOutlinePoints(shiftOutlinePoint(outlinePoints, pointId, move));
+  };
+
+  // Adds each note as its own entry under the selected point, citing the current source
+  const addResearchEntries = (notes: ExtractedNote[]) => {
+    if (!selectedPointId || notes.length === 0) return;
+
+    // A new source joins the library, unless an identical one is already there
+    let sourceId = selectedSourceId;
+    if (!sourceId) {
+      const index = createSourceIndex(sources);
+      sourceId = index.idFor({ ...bibEntry });
+      setSources(index.sources);
+    }
+
+    const newEntries = notes.map((note, index) => ({
+      id: `${Date.now()}${notes.length > 1 ? `-${index}` : ''}`,
+      pointId: selectedPointId,
+      text: note.text,
+      sourceId,
+      tagIds: researchTagIds,
+      kind: researchDetails.kind,
+      locator: hasLocator(note.locator) ? note.locator : null
+    }));
+
+    setResearchEntries([...researchEntries, ...newEntries]);
+    // The next note is likely the same kind, but from a different page
+    setResearchDetails({ kind: researchDetails.kind, locator: null });
+    // Keep the source selected, since the next note often comes from the same one
+    setSelectedSourceId(sourceId);
+  };
+
+  const handleAddResearch = () => {
+    if (!selectedPointId || !researchText.trim()) return;
+    addResearchEntries([{ text: researchText, locator: researchDetails.locator }]);
+    setResearchText('');
+  };
+
+  const handleSelectSource = (sourceId: string) => {
+    const bibliography = findBibliography(sources, sourceId);
+    setSelectedSourceId(bibliography ? sourceId : '');
+    setBibEntry(bibliography ? { ...bibliography } : createEmptyBibEntry());
+  };
+
+  // Edits to a library source apply straight away, to every entry citing it
+  const updateBibEntry = (next: BibEntry) => {
+    setBibEntry(next);
+    if (selectedSourceId) {
+      const changed = (Object.keys(next) as BibEntryKey[]).filter(key => next[key] !== bibEntry[key]);
+      // A keystroke changes one field; filling several at once is a change of its own
+      if (changed.length === 1) typingField.current = `source:${selectedSourceId}:${changed[0]}`;
+      setSources(sources.map(source =>
+        source.id === selectedSourceId ? { ...source, bibliography: next } : source
+      ));
+    }
+  };
+
+  const handleUseReference = (bibliography: BibEntry) => {
+    setSelectedSourceId('');
+    setBibEntry(bibliography);
+  };
+
+  const handleDeleteSource = (sourceId: string) => {
+    if (countCitations(researchEntries, sourceId) > 0) return;
+    setSources(sources.filter(source => source.id !== sourceId));
+    if (sourceId === selectedSourceId) handleSelectSource('');
+  };
+
+  const handleEditEntry = (entry: ResearchEntry) => {
+    const bibliography = findBibliography(sources, entry.sourceId) ?? createEmptyBibEntry();
+    setEntryDraft({
+      id: entry.id,
+      text: entry.text,
+      tagIds: entry.tagIds,
+      details: { kind: entry.kind, locator: entry.locator },
+      bibliography: { ...bibliography }
+    });
+  };
+
+  // The note text belongs to the entry, but its bibliography is the shared library source
+  const handleSaveEntry = () => {
+    if (!entryDraft || !entryDraft.text.trim()) return;
+    const entry = researchEntries.find(e => e.id === entryDraft.id);
+    if (!entry) return;
+
+    let sourceId = entry.sourceId;
+    if (findBibliography(sources, sourceId)) {
+      setSources(sources.map(source =>
+        source.id === sourceId ? { ...source, bibliography: entryDraft.bibliography } : source
+      ));
     } else {
-      const updatedPoints = outlinePoints.map(point => {
-        if (point.id === selectedParentId) {
-          return {
-            ...point,
-            children: [...point.children, newPoint]
-          };
+      const index = createSourceIndex(sources);
+      sourceId = index.idFor(entryDraft.bibliography);
+      setSources(index.sources);
+    }
+
+    setResearchEntries(researchEntries.map(e =>
+      e.id === entry.id
+        ? {
+          ...e,
+          text: entryDraft.text,
+          tagIds: entryDraft.tagIds,
+          kind: entryDraft.details.kind,
+          locator: hasLocator(entryDraft.details.locator) ? entryDraft.details.locator : null,
+          sourceId
         }
-        return point;
-      });
-      setOutlinePoints(updatedPoints);
+        : e
+    ));
+    // Keep the new-entry form in step when it shows the same source
+    if (sourceId === selectedSourceId) setBibEntry({ ...entryDraft.bibliography });
+    setEntryDraft(null);
+  };
+
+  const handleCreateTag = (name: string, color: TagColor) => {
+    setTags([...tags, createTag(name, color)]);
+  };
+
+  const handleUpdateTag = (updated: Tag) => {
+    setTags(tags.map(tag => tag.id === updated.id ? updated : tag));
+  };
+
+  const handleDeleteTag = (tagId: string) => {
+    setTags(tags.filter(tag => tag.id !== tagId));
+    setResearchEntries(removeTagFromEntries(researchEntries, tagId));
+    setResearchTagIds(researchTagIds.filter(id => id !== tagId));
+    if (entryDraft) setEntryDraft({ ...entryDraft, tagIds: entryDraft.tagIds.filter(id => id !== tagId) });
+    if (reviewTagId === tagId) setReviewTagId(ALL_TAGS);
+  };
+
+  const tagsFor = (entry: ResearchEntry) => tags.filter(tag => entry.tagIds.includes(tag.id));
+
+  const handleJumpToEntry = (entry: ResearchEntry) => {
+    setSelectedPointId(entry.pointId);
+    setJumpedEntryId(entry.id);
+  };
+
+  const citationFor = (entry: ResearchEntry) => {
+    const bibliography = findBibliography(sources, entry.sourceId);
+    return bibliography ? formatCitation(bibliography, citationStyle) : 'Unknown source';
+  };
+
+  const handleExport = async () => {
+    try {
+      const blob = await buildDocx({ thesis, outlinePoints, sources, researchEntries, citationStyle });
+      downloadFile(blob, 'research-paper.docx', DOCX_MIME_TYPE);
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Unable to export the document. Please try again.');
     }
+  };
 
-    setCurrentPointText('');
+  const handleExportBibliography = () => {
+    const { extension, mimeType } = BIBLIOGRAPHY_FORMATS[bibliographyFormat];
+    downloadFile(exportBibliography(sources, researchEntries, bibliographyFormat), `bibliography.${extension}`, mimeType);
   };
 
-  const handleDeletePoint = (pointId: string, parentId: string | null = null) => {
-    if (parentId) {
-      setOutlinePoints(outlinePoints.map(point => {
-        if (point.id === parentId) {
-          return {
-            ...point,
-            children: point.children.filter(child => child.id !== pointId)
-          };
-        }
-        return point;
-      }));
-    } else {
-      setOutlinePoints(outlinePoints.filter(point => point.id !== pointId));
+  const handleExportProject = () => {
+    const project = projects.find(p => p.id === currentProjectId);
+    if (!project) return;
+
+    const bundle = createProjectBundle(project, { thesis, outlinePoints, sources, tags, researchEntries, citationStyle });
+    downloadFile(JSON.stringify(bundle, null, 2), bundleFileName(project.name), 'application/json');
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingImport(parseProjectBundle(await file.text()));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setPendingImport({ bundle: null, errors: ['The file could not be read.'], warnings: [] });
     }
-    setResearchEntries(researchEntries.filter(entry => entry.pointId !== pointId));
   };
 
-  const movePoint = (index: number, direction: 'up' | 'down') => {
-    const newPoints = [...outlinePoints];
-    if (direction === 'up' && index > 0) {
-      [newPoints[index], newPoints[index - 1]] = [newPoints[index - 1], newPoints[index]];
-    } else if (direction === 'down' && index < newPoints.length - 1) {
-      [newPoints[index], newPoints[index + 1]] = [newPoints[index + 1], newPoints[index]];
+  const handleApplyImport = (mode: 'replace' | 'merge') => {
+    if (!pendingImport?.bundle) return;
+
+    const imported = bundleProjectData(pendingImport.bundle);
+    let data = imported;
+    if (mode === 'merge') {
+      const merged = mergeProjectData({ thesis, outlinePoints, sources, tags, researchEntries, citationStyle }, imported);
+      data = merged.data;
+      if (merged.warnings.length > 0) alert(merged.warnings.join('\n'));
     }
-    setOutlinePoints(newPoints);
+
+    setThesis(data.thesis);
+    setOutlinePoints(data.outlinePoints);
+    setSources(data.sources);
+    setTags(data.tags);
+    setResearchEntries(data.researchEntries);
+    setCitationStyle(data.citationStyle);
+    setSelectedParentId('');
+    setSelectedPointId('');
+    setSelectedSourceId('');
+    setBibEntry(createEmptyBibEntry());
+    setResearchTagIds([]);
+    setReviewTagId(ALL_TAGS);
+    setEntryDraft(null);
+    setPendingImport(null);
   };
 
-  const handleAddResearch = () => {
-    if (!selectedPointId || !researchText.trim()) return;
+  // The source type picker and its fields, shared by the new-entry form and entry editing
+  const renderBibliographyFields = (bib: BibEntry, onChange: (next: BibEntry) => void) => (
+    <>
+      <Select
+        value={bib.sourceType}
+        onValueChange={(sourceType: SourceType) => onChange({ ...bib, sourceType })}
+      >
+        <SelectTrigger className={styles.select}>
+          <SelectValue placeholder="Select source type" />
+        </SelectTrigger>
+        <SelectContent className={styles.selectContent}>
+          <SelectItem value="book">Book</SelectItem>
+          <SelectItem value="journal">Journal Article</SelectItem>
+          <SelectItem value="website">Website</SelectItem>
+          <SelectItem value="newspaper">Newspaper</SelectItem>
+          <SelectItem value="chapter">Book Chapter</SelectItem>
+        </SelectContent>
+      </Select>
 
-    const newEntry = {
-      id: Date.now().toString(),
-      pointId: selectedPointId,
-      text: researchText,
-      bibliography: { ...bibEntry }
-    };
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {getSourceTypeFields(bib.sourceType).map((field) => field.key === 'authors' || field.key === 'editors' ? (
+          <ContributorInput
+            key={field.key}
+            label={field.label}
+            value={bib[field.key]}
+            onChange={(contributors) => onChange({ ...bib, [field.key]: contributors })}
+            required={field.required}
+          />
+        ) : (
+          <div key={field.key} className="space-y-2">
+            <label className="text-sm text-gray-600">
+              {field.label}
+              {field.required && <span className="text-red-500">*</span>}
+            </label>
+            {field.key === 'accessDate' ? (
+              <Input
+                type="date"
+                value={bib[field.key]}
+                onChange={(e) => onChange({ ...bib, [field.key]: e.target.value })}
+                className={styles.input}
+                required={field.required}
+              />
+            ) : (
+              <Input
+                value={bib[field.key]}
+                onChange={(e) => onChange({ ...bib, [field.key]: e.target.value })}
+                className={styles.input}
+                required={field.required}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </>
+  );
 
-    setResearchEntries([...researchEntries, newEntry]);
-    setResearchText('');
-    setBibEntry(emptyBibEntry);
-  };
-
-  const handleExport = () => {
-    const content = `
-    <html>
-    <head>
-      <style>
-        body {
-          font-family: 'Times New Roman', Times, serif;
-          font-size: 12pt;
-          line-height: 1.5;
-          margin: 0.5in 0.5in 0.5in 0.5in;
-          padding: 0;
-        }
-        h1 {
-          font-size: 12pt;
-          font-weight: bold;
-          margin-top: 0;
-          margin-bottom: 1em;
-          text-align: center;
-        }
-        p {
-          margin: 0 0 0.5em 0;
-        }
-        .thesis {
-          margin-bottom: 1em;
-        }
-        .research-entry {
-          margin-left: 0.25in;
-          margin-bottom: 0.5em;
-        }
-        .citation {
-          margin-left: 0.25in;
-          font-style: italic;
-          margin-bottom: 1em;
-        }
-        h2, h3 {
-          font-size: 12pt;
-          font-weight: bold;
-          margin-top: 1em;
-          margin-bottom: 0.5em;
-        }
-        .bibliography {
-          margin-top: 2em;
-        }
-        .bibliography-entry {
-          padding-left: 0.5in;
-          text-indent: -0.5in;
-          margin-bottom: 1em;
-        }
-      </style>
-    </head>
-    <body>
-      <h1>Research Paper Outline</h1>
-      <p class="thesis"><strong>Thesis:</strong> ${thesis}</p>
-      
-      ${outlinePoints.map((point, index) => `
-        <h2>${index + 1}. ${point.text}</h2>
-        ${researchEntries
-        .filter(entry => entry.pointId === point.id)
-        .map(entry => `
-            <div class="research-entry">
-              <p>${entry.text}</p>
-              <p class="citation">Source: ${formatCitation(entry.bibliography, citationStyle)}</p>
-            </div>
-          `).join('')}
-        
-        ${point.children.map((subPoint, subIndex) => `
-          <h3>${String.fromCharCode(97 + subIndex)}. ${subPoint.text}</h3>
-          ${researchEntries
-            .filter(entry => entry.pointId === subPoint.id)
-            .map(entry => `
-              <div class="research-entry">
-                <p>${entry.text}</p>
-                <p class="citation">Source: ${formatCitation(entry.bibliography, citationStyle)}</p>
-              </div>
-            `).join('')}
-        `).join('')}
-      `).join('')}
-      
-      <div class="bibliography">
-        <h2>Bibliography</h2>
-        ${[...new Set(researchEntries.map(entry =>
-              formatCitation(entry.bibliography, citationStyle)
-            ))]
-        .sort()
-        .map(citation => `<p class="bibliography-entry">${citation}</p>`)
-        .join('')}
+  const reviewHeadingClasses = [
+    'text-xl font-bold',
+    'text-lg font-semibold',
+    'text-base font-semibold',
+    'text-base font-medium italic'
+  ];
+
+  // An entry's kind, locator and tags, then its text: quotes in quotation marks, long ones as block quotes
+  const renderEntryBody = (entry: ResearchEntry) => (
+    <>
+      <div className="flex flex-wrap items-center gap-1 mb-2">
+        <span className="text-xs font-medium text-[#8B593E]">
+          {ENTRY_KIND_LABELS[entry.kind]}
+          {hasLocator(entry.locator) && ` · ${describeLocator(entry.locator)}`}
+        </span>
+        {tagsFor(entry).map(tag => <TagChip key={tag.id} tag={tag} />)}
+      </div>
+      {isBlockQuote(entry.kind, entry.text, citationStyle) ? (
+        <blockquote className="mb-2 ml-4 pl-4 border-l-4 border-[#D4BFA0] whitespace-normal break-words">
+          {entry.text}
+        </blockquote>
+      ) : (
+        <p className="mb-2 whitespace-normal break-words">
+          {entry.kind === 'quote' ? quoteText(entry.text) : entry.text}
+        </p>
+      )}
+    </>
+  );
+
+  // Worked out for the whole paper at once, since IEEE numbers and Chicago's short notes depend on what came before
+  const inTextCitations = createInTextCitations(outlinePoints, sources, researchEntries, citationStyle);
+
+  const renderReviewEntry = (entry: ResearchEntry, pointPath?: string) => {
+    const inText = inTextCitations.get(entry.id);
+    return (
+      <div key={entry.id} className="ml-4 p-4 bg-white rounded">
+        {pointPath && <p className="text-xs text-gray-500 mb-1 whitespace-normal break-words">{pointPath}</p>}
+        {renderEntryBody(entry)}
+        {inText && (
+          <div className="flex items-center gap-1 mb-1">
+            <p className="text-sm text-[#4A2B1B] whitespace-normal break-words">
+              {citationStyle === 'chicago' ? 'Footnote' : 'In text'}: {inText}
+            </p>
+            <CopyButton text={inText} label="Copy citation" />
+          </div>
+        )}
+        <p className="text-sm text-gray-600 whitespace-normal break-words">
+          Source: {citationFor(entry)}
+        </p>
       </div>
-    </body>
-    </html>
-  `;
+    );
+  };
 
-    const blob = new Blob([content], {
-      type: 'application/msword'
-    });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'research-paper.doc';
-    link.click();
-    URL.revokeObjectURL(url);
-  };
-
-  // Helper function for source type fields
-  const getSourceTypeFields = (sourceType: SourceType) => {
-    const commonFields: Array<{ key: BibEntryKey; label: string; required: boolean }> = [
-      { key: 'author', label: 'Author(s) (Last Name, First Name)', required: true },
-      { key: 'title', label: 'Title', required: true },
-      { key: 'year', label: 'Year', required: true },
-      { key: 'doi', label: 'DOI (if available)', required: false }
-    ];
-
-    const sourceTypeFields: Record<SourceType, Array<{ key: BibEntryKey; label: string; required: boolean }>> = {
-      book: [
-        { key: 'publisher', label: 'Publisher', required: true },
-        { key: 'city', label: 'City of Publication', required: true },
-        { key: 'edition', label: 'Edition', required: false }
-      ],
-      journal: [
-        { key: 'journalName', label: 'Journal Name', required: true },
-        { key: 'volume', label: 'Volume', required: true },
-        { key: 'issue', label: 'Issue', required: true },
-        { key: 'pages', label: 'Pages', required: true }
-      ],
-      website: [
-        { key: 'websiteName', label: 'Website Name', required: true },
-        { key: 'organization', label: 'Organization', required: true },
-        { key: 'url', label: 'URL', required: true },
-        { key: 'accessDate', label: 'Access Date', required: true }
-      ],
-      newspaper: [
-        { key: 'newspaperName', label: 'Newspaper Name', required: true },
-        { key: 'pages', label: 'Page Numbers', required: false }
-      ],
-      chapter: [
-        { key: 'bookTitle', label: 'Book Title', required: true },
-        { key: 'editors', label: 'Editor(s)', required: true },
-        { key: 'publisher', label: 'Publisher', required: true },
-        { key: 'chapterPages', label: 'Chapter Pages', required: true }
-      ]
-    };
+  // Review tab, tag view: entries from every point under each tag, labelled with their point
+  const renderTagGroups = () => {
+    const paths = new Map(flattenOutline(outlinePoints).map(({ point, path }) => [point.id, `${path} ${point.text}`]));
+    const groups = groupEntriesByTag(researchEntries, tags)
+      .filter(group => reviewTagId === ALL_TAGS || group.tag?.id === reviewTagId);
+    if (groups.length === 0) return <p className="text-gray-600">No research entries to show.</p>;
 
-    return [...commonFields, ...sourceTypeFields[sourceType]];
+    return groups.map(({ tag, entries }) => (
+      <div key={tag ? tag.id : 'untagged'} className="space-y-2">
+        <h2 className={`text-lg font-semibold ${styles.heading} flex items-center gap-2`}>
+          {tag ? <TagChip tag={tag} /> : 'Untagged'}
+          <span className="text-sm font-normal text-gray-500">
+            {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+          </span>
+        </h2>
+        {entries.map(entry => renderReviewEntry(entry, paths.get(entry.pointId)))}
+      </div>
+    ));
   };
 
-  // Return JSX continues in Part 3...
+  // Review tab: each point's research sits under its heading, then its children
+  const renderReviewTree = (points: OutlinePoint[], depth: number): React.ReactNode =>
+    points.map((point, index) => {
+      const Heading = depth === 0 ? 'h2' : depth === 1 ? 'h3' : 'h4';
+      return (
+        <div key={point.id} className={depth === 0 ? 'space-y-4' : 'ml-6 space-y-2'}>
+          <Heading
+            className={`${reviewHeadingClasses[Math.min(depth, reviewHeadingClasses.length - 1)]} ${styles.heading} whitespace-normal break-words`}
+          >
+            {outlineLabel(index, depth)} {point.text}
+          </Heading>
+
+          {researchEntries
+            .filter(entry => entry.pointId === point.id && (reviewTagId === ALL_TAGS || entry.tagIds.includes(reviewTagId)))
+            .map(entry => renderReviewEntry(entry))}
+
+          {renderReviewTree(point.children, depth + 1)}
+        </div>
+      );
+    });
+
 
   return (
     <div className={styles.container}>
@@ -479,7 +891,10 @@ const ResearchPaperOrganizer = () => {
         <div className="w-full max-w-xs mx-auto mb-4">
           <div className="flex justify-between text-sm mb-1">
             <span className="text-gray-600">Storage Used</span>
-            <span className="text-gray-600">{storagePercentage.toFixed(1)}%</span>
+            <span className="text-gray-600">
+              {storageUsage && `${formatMegabytes(storageUsage.usage)} of ${formatMegabytes(storageUsage.quota)} · `}
+              {storagePercentage.toFixed(1)}%
+            </span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2.5">
             <div
@@ -511,6 +926,39 @@ const ResearchPaperOrganizer = () => {
           </div>
         )}
 
+        <ProjectSwitcher
+          projects={projects}
+          currentProjectId={currentProjectId}
+          onSelect={handleSelectProject}
+          onCreate={handleCreateProject}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+        />
+
+        <div className="flex justify-end space-x-2 mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleUndo}
+            disabled={history.past.length === 0}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            Undo
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRedo}
+            disabled={history.future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="mr-2 h-4 w-4" />
+            Redo
+          </Button>
+        </div>
+
         <div className="mb-8 text-center">
           <p className={`italic text-lg ${styles.text} whitespace-normal break-words max-w-full`}>
             {thesis || 'Enter your thesis in the Outline tab'}
@@ -531,7 +979,10 @@ const ResearchPaperOrganizer = () => {
                 <Input
                   placeholder="Enter thesis statement"
                   value={thesis}
-                  onChange={(e) => setThesis(e.target.value)}
+                  onChange={(e) => {
+                    typingField.current = 'thesis';
+                    setThesis(e.target.value);
+                  }}
                   className={styles.input}
                 />
 
@@ -543,88 +994,35 @@ const ResearchPaperOrganizer = () => {
                     className={styles.input}
                   />
                   <Select
-                    value={currentLevel}
-                    onValueChange={(value: Level) => setCurrentLevel(value)}
+                    value={selectedParentId || TOP_LEVEL}
+                    onValueChange={(value) => setSelectedParentId(value === TOP_LEVEL ? '' : value)}
                   >
-                    <SelectTrigger className={`w-32 ${styles.select}`}>
-                      <SelectValue placeholder="Level" />
+                    <SelectTrigger className={`w-48 ${styles.select}`}>
+                      <SelectValue placeholder="Add under" />
                     </SelectTrigger>
                     <SelectContent className={styles.selectContent}>
-                      <SelectItem value="main">Main Point</SelectItem>
-                      <SelectItem value="sub">Sub Point</SelectItem>
+                      <SelectItem value={TOP_LEVEL}>Main Point</SelectItem>
+                      {flattenOutline(outlinePoints).map(({ point, depth, path }) => (
+                        <SelectItem key={point.id} value={point.id}>
+                          {'→ '.repeat(depth + 1)}Under {path}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
-                  {currentLevel === 'sub' && (
-                    <Select value={selectedParentId} onValueChange={setSelectedParentId}>
-                      <SelectTrigger className={`w-32 ${styles.select}`}>
-                        <SelectValue placeholder="Select Main" />
-                      </SelectTrigger>
-                      <SelectContent className={styles.selectContent}>
-                        {outlinePoints.map((point, index) => (
-                          <SelectItem key={point.id} value={point.id}>
-                            Main Point {index + 1}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  )}
                   <Button onClick={handleAddPoint} className={styles.button}>
                     <PlusCircle className="mr-2 h-4 w-4" />
                     Add
                   </Button>
                 </div>
 
-                <div className="mt-6 space-y-2">
-                  {outlinePoints.map((point, index) => (
-                    <div key={point.id} className="space-y-1">
-                      <div className="flex items-center space-x-2">
-                        <p className="font-medium flex-grow whitespace-normal break-words">
-                          {index + 1}. {point.text}
-                        </p>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => movePoint(index, 'up')}
-                          disabled={index === 0}
-                          className="p-1"
-                        >
-                          <ArrowUp className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => movePoint(index, 'down')}
-                          disabled={index === outlinePoints.length - 1}
-                          className="p-1"
-                        >
-                          <ArrowDown className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDeletePoint(point.id)}
-                          className={`p-1 ${styles.deleteButton}`}
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </div>
-                      {point.children.map((subPoint, subIndex) => (
-                        <div key={subPoint.id} className="ml-6 flex items-center space-x-2">
-                          <p>
-                            {String.fromCharCode(97 + subIndex)}. {subPoint.text}
-                          </p>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeletePoint(subPoint.id, point.id)}
-                            className={`p-1 ${styles.deleteButton}`}
-                          >
-                            <X className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
-                  ))}
+                <div className="mt-6">
+                  <OutlineTree
+                    points={outlinePoints}
+                    onMove={handleMovePoint}
+                    onShift={handleShiftPoint}
+                    onRename={handleRenamePoint}
+                    onDelete={handleDeletePoint}
+                  />
                 </div>
               </CardContent>
             </Card>
@@ -634,28 +1032,35 @@ const ResearchPaperOrganizer = () => {
           <TabsContent value="phase2">
             <Card className={styles.card}>
               <CardContent className="space-y-4 pt-6">
-                <Select onValueChange={setSelectedPointId}>
+                <ResearchSearch
+                  outlinePoints={outlinePoints}
+                  sources={sources}
+                  researchEntries={researchEntries}
+                  onJumpToEntry={handleJumpToEntry}
+                />
+
+                <Select value={selectedPointId} onValueChange={setSelectedPointId}>
                   <SelectTrigger className={styles.select}>
                     <SelectValue placeholder="Select point for research" />
                   </SelectTrigger>
                   <SelectContent className={styles.selectContent}>
-                    {outlinePoints.map((point, index) => (
-                      <React.Fragment key={point.id}>
-                        <SelectItem value={point.id}>Main Point {index + 1}</SelectItem>
-                        {point.children.map((subPoint, subIndex) => (
-                          <SelectItem key={subPoint.id} value={subPoint.id}>
-                            → {String.fromCharCode(97 + subIndex)}. {subPoint.text}
-                          </SelectItem>
-                        ))}
-                      </React.Fragment>
+                    {flattenOutline(outlinePoints).map(({ point, depth, label }) => (
+                      <SelectItem key={point.id} value={point.id}>
+                        {'→ '.repeat(depth)}{label} {point.text}
+                      </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
 
                 <ImageTextExtractor
-                  onExtractedText={(text) => {
+                  onExtractedText={(text, locator) => {
                     setResearchText((prev) => prev + (prev ? '\n\n' : '') + text);
+                    if (locator) setResearchDetails((prev) => ({ ...prev, locator }));
                   }}
+                  onReplaceText={setResearchText}
+                  onExtractedNotes={selectedPointId ? addResearchEntries : undefined}
+                  bibEntry={bibEntry}
+                  onFillBibEntry={updateBibEntry}
                 />
                 <Textarea
                   placeholder="Enter your research notes"
@@ -664,51 +1069,47 @@ const ResearchPaperOrganizer = () => {
                   className={`min-h-24 ${styles.input}`}
                 />
 
+                <EntryKindFields value={researchDetails} onChange={setResearchDetails} />
+                <TagPicker tags={tags} selectedIds={researchTagIds} onChange={setResearchTagIds} />
+
                 <div className={`space-y-4 ${styles.bibliographySection}`}>
                   <h3 className="font-semibold">Bibliography Information</h3>
 
-                  <Select
-                    value={bibEntry.sourceType}
-                    onValueChange={(value: SourceType) => setBibEntry({ ...bibEntry, sourceType: value })}
-                  >
-                    <SelectTrigger className={styles.select}>
-                      <SelectValue placeholder="Select source type" />
-                    </SelectTrigger>
-                    <SelectContent className={styles.selectContent}>
-                      <SelectItem value="book">Book</SelectItem>
-                      <SelectItem value="journal">Journal Article</SelectItem>
-                      <SelectItem value="website">Website</SelectItem>
-                      <SelectItem value="newspaper">Newspaper</SelectItem>
-                      <SelectItem value="chapter">Book Chapter</SelectItem>
-                    </SelectContent>
-                  </Select>
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {getSourceTypeFields(bibEntry.sourceType).map((field) => (
-                      <div key={field.key} className="space-y-2">
-                        <label className="text-sm text-gray-600">
-                          {field.label}
-                          {field.required && <span className="text-red-500">*</span>}
-                        </label>
-                        {field.key === 'accessDate' ? (
-                          <Input
-                            type="date"
-                            value={bibEntry[field.key]}
-                            onChange={(e) => setBibEntry({ ...bibEntry, [field.key]: e.target.value })}
-                            className={styles.input}
-                            required={field.required}
-                          />
-                        ) : (
-                          <Input
-                            value={bibEntry[field.key]}
-                            onChange={(e) => setBibEntry({ ...bibEntry, [field.key]: e.target.value })}
-                            className={styles.input}
-                            required={field.required}
-                          />
-                        )}
-                      </div>
-                    ))}
+                  <div className="flex space-x-2">
+                    <Select
+                      value={selectedSourceId || NEW_SOURCE}
+                      onValueChange={(value) => handleSelectSource(value === NEW_SOURCE ? '' : value)}
+                    >
+                      <SelectTrigger className={styles.select}>
+                        <SelectValue placeholder="Choose a source" />
+                      </SelectTrigger>
+                      <SelectContent className={styles.selectContent}>
+                        <SelectItem value={NEW_SOURCE}>New source</SelectItem>
+                        {sources.map(source => (
+                          <SelectItem key={source.id} value={source.id}>
+                            {describeSource(source)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedSourceId && (
+                      <Button variant="outline" onClick={() => handleSelectSource('')}>
+                        <PlusCircle className="mr-2 h-4 w-4" />
+                        New Source
+                      </Button>
+                    )}
                   </div>
+
+                  {selectedSourceId ? (
+                    <p className="text-sm text-gray-600">
+                      Editing a library source cited by {countCitations(researchEntries, selectedSourceId)} entries.
+                      Changes apply everywhere it is cited.
+                    </p>
+                  ) : (
+                    <ReferenceImporter onUseReference={handleUseReference} />
+                  )}
+
+                  {renderBibliographyFields(bibEntry, updateBibEntry)}
                 </div>
 
                 <Button onClick={handleAddResearch} className={`w-full ${styles.button}`}>
@@ -716,28 +1117,119 @@ const ResearchPaperOrganizer = () => {
                   Save Research Entry
                 </Button>
 
+                <TagEditor
+                  tags={tags}
+                  researchEntries={researchEntries}
+                  onCreate={handleCreateTag}
+                  onUpdate={handleUpdateTag}
+                  onDelete={handleDeleteTag}
+                />
+
+                {sources.length > 0 && (
+                  <div className={`space-y-2 ${styles.bibliographySection}`}>
+                    <h3 className="font-semibold">Source Library</h3>
+                    {sources.map(source => {
+                      const citations = countCitations(researchEntries, source.id);
+                      return (
+                        <div key={source.id} className="flex items-center space-x-2">
+                          <p className="text-sm flex-grow whitespace-normal break-words">
+                            {formatCitation(source.bibliography, citationStyle)}
+                          </p>
+                          <span className="text-xs text-gray-500 shrink-0">
+                            {citations} {citations === 1 ? 'entry' : 'entries'}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSelectSource(source.id)}
+                            disabled={source.id === selectedSourceId}
+                          >
+                            Use
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteSource(source.id)}
+                            disabled={citations > 0}
+                            title={citations > 0 ? 'Sources cited by an entry cannot be deleted' : 'Delete source'}
+                            className={`p-1 ${styles.deleteButton}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
                 {selectedPointId && (
                   <div className="mt-6 space-y-4">
                     <h3 className="font-semibold">Existing Research for Selected Point</h3>
                     {researchEntries
                       .filter(entry => entry.pointId === selectedPointId)
-                      .map(entry => (
-                        <div key={entry.id} className="ml-4 p-4 bg-white rounded">
-                          <p className="mb-2 whitespace-normal break-words">{entry.text}</p>
+                      .map(entry => entryDraft?.id === entry.id ? (
+                        <div key={entry.id} className={`ml-4 space-y-4 ${styles.bibliographySection}`}>
+                          <Textarea
+                            value={entryDraft.text}
+                            onChange={(e) => setEntryDraft({ ...entryDraft, text: e.target.value })}
+                            className={`min-h-24 ${styles.input}`}
+                          />
+                          <EntryKindFields
+                            value={entryDraft.details}
+                            onChange={(details) => setEntryDraft({ ...entryDraft, details })}
+                          />
+                          <TagPicker
+                            tags={tags}
+                            selectedIds={entryDraft.tagIds}
+                            onChange={(tagIds) => setEntryDraft({ ...entryDraft, tagIds })}
+                          />
+                          {countCitations(researchEntries, entry.sourceId) > 1 && (
+                            <p className="text-sm text-gray-600">
+                              This source is cited by {countCitations(researchEntries, entry.sourceId)} entries.
+                              Bibliography changes apply to all of them.
+                            </p>
+                          )}
+                          {renderBibliographyFields(
+                            entryDraft.bibliography,
+                            (bibliography) => setEntryDraft({ ...entryDraft, bibliography })
+                          )}
+                          <div className="flex space-x-2">
+                            <Button onClick={handleSaveEntry} className={styles.button}>
+                              <Save className="mr-2 h-4 w-4" />
+                              Save Changes
+                            </Button>
+                            <Button variant="outline" onClick={() => setEntryDraft(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div
+                          key={entry.id}
+                          id={`entry-${entry.id}`}
+                          className={`ml-4 p-4 bg-white rounded transition-shadow ${entry.id === jumpedEntryId ? 'ring-2 ring-[#8B593E]' : ''}`}
+                        >
+                          {renderEntryBody(entry)}
                           <p className="text-sm text-gray-600 whitespace-normal break-words">
-                            Source: {formatCitation(entry.bibliography, citationStyle)}
+                            Source: {citationFor(entry)}
                           </p>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => {
-                              setResearchEntries(researchEntries.filter(e => e.id !== entry.id));
-                            }}
-                            className={`mt-2 ${styles.deleteButton}`}
-                          >
-                            <X className="h-4 w-4 mr-1" />
-                            Remove Entry
-                          </Button>
+                          <div className="flex space-x-2 mt-2">
+                            <Button variant="ghost" size="sm" onClick={() => handleEditEntry(entry)}>
+                              <Pencil className="h-4 w-4 mr-1" />
+                              Edit Entry
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setResearchEntries(researchEntries.filter(e => e.id !== entry.id));
+                              }}
+                              className={styles.deleteButton}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Remove Entry
+                            </Button>
+                          </div>
                         </div>
                       ))}
                   </div>
@@ -750,7 +1242,7 @@ const ResearchPaperOrganizer = () => {
           <TabsContent value="phase3">
             <Card className={styles.card}>
               <CardContent className="space-y-4 pt-6">
-                <div className="flex space-x-4 items-center bg-white p-4 rounded-lg border border-[#D4BFA0]">
+                <div className="flex flex-wrap gap-4 items-center bg-white p-4 rounded-lg border border-[#D4BFA0]">
                   <Select value={citationStyle} onValueChange={(value: CitationStyle) => setCitationStyle(value)}>
                     <SelectTrigger className={`w-40 ${styles.select}`}>
                       <SelectValue placeholder="Citation Style" />
@@ -768,46 +1260,125 @@ const ResearchPaperOrganizer = () => {
                     <FileDown className="mr-2 h-4 w-4" />
                     Export to Word
                   </Button>
-                </div>
 
-                <div className="space-y-6">
-                  {outlinePoints.map((point, index) => (
-                    <div key={point.id} className="space-y-4">
-                      <h2 className={`text-xl font-bold ${styles.heading} whitespace-normal break-words`}>
-                        {index + 1}. {point.text}
-                      </h2>
-
-                      {researchEntries
-                        .filter(entry => entry.pointId === point.id)
-                        .map(entry => (
-                          <div key={entry.id} className="ml-4 p-4 bg-white rounded">
-                            <p className="mb-2 whitespace-normal break-words">{entry.text}</p>
-                            <p className="text-sm text-gray-600 whitespace-normal break-words">
-                              Source: {formatCitation(entry.bibliography, citationStyle)}
-                            </p>
-                          </div>
+                  <div className="flex space-x-2">
+                    <Select
+                      value={bibliographyFormat}
+                      onValueChange={(value: BibliographyFormat) => setBibliographyFormat(value)}
+                    >
+                      <SelectTrigger className={`w-40 ${styles.select}`}>
+                        <SelectValue placeholder="Format" />
+                      </SelectTrigger>
+                      <SelectContent className={styles.selectContent}>
+                        {(Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).map(format => (
+                          <SelectItem key={format} value={format}>
+                            {BIBLIOGRAPHY_FORMATS[format].label}
+                          </SelectItem>
                         ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={handleExportBibliography}
+                      disabled={researchEntries.length === 0}
+                      className={styles.button}
+                    >
+                      <BookMarked className="mr-2 h-4 w-4" />
+                      Export Bibliography
+                    </Button>
+                  </div>
 
-                      {point.children.map((subPoint, subIndex) => (
-                        <div key={subPoint.id} className="ml-6 space-y-2">
-                          <h3 className={`text-lg font-semibold ${styles.heading} whitespace-normal break-words`}>
-                            {String.fromCharCode(97 + subIndex)}. {subPoint.text}
-                          </h3>
-
-                          {researchEntries
-                            .filter(entry => entry.pointId === subPoint.id)
-                            .map(entry => (
-                              <div key={entry.id} className="ml-4 p-4 bg-white rounded">
-                                <p className="mb-2 whitespace-normal break-words">{entry.text}</p>
-                                <p className="text-sm text-gray-600 whitespace-normal break-words">
-                                  Source: {formatCitation(entry.bibliography, citationStyle)}
-                                </p>
-                              </div>
-                            ))}
-                        </div>
-                      ))}
+                  <Button onClick={handleExportProject} className={styles.button}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export Project
+                  </Button>
+
+                  <Button onClick={() => importInputRef.current?.click()} className={styles.button}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import Project
+                  </Button>
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    ref={importInputRef}
+                    onChange={handleImportFile}
+                  />
+                </div>
+
+                {pendingImport && (
+                  <div className={`space-y-3 ${styles.bibliographySection}`}>
+                    <h3 className="font-semibold">
+                      {pendingImport.bundle
+                        ? `Import "${pendingImport.bundle.project.name}"`
+                        : 'Import failed'}
+                    </h3>
+                    {pendingImport.bundle && (
+                      <p className="text-sm text-gray-600">
+                        {pendingImport.bundle.project.outlinePoints.length} main points,{' '}
+                        {pendingImport.bundle.project.sources.length} sources,{' '}
+                        {pendingImport.bundle.project.researchEntries.length} research entries,
+                        exported {new Date(pendingImport.bundle.exportedAt).toLocaleDateString()}
+                      </p>
+                    )}
+                    {[...pendingImport.errors, ...pendingImport.warnings].length > 0 && (
+                      <ul className="list-disc ml-5 text-sm space-y-1">
+                        {pendingImport.errors.map((error, index) => (
+                          <li key={`error-${index}`} className="text-red-600">{error}</li>
+                        ))}
+                        {pendingImport.warnings.map((warning, index) => (
+                          <li key={`warning-${index}`} className="text-yellow-700">{warning}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="flex space-x-2">
+                      {pendingImport.bundle && (
+                        <>
+                          <Button onClick={() => handleApplyImport('replace')} className={styles.button}>
+                            Replace Current Project
+                          </Button>
+                          <Button onClick={() => handleApplyImport('merge')} className={styles.button}>
+                            Merge Into Current Project
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="outline" onClick={() => setPendingImport(null)}>
+                        Cancel
+                      </Button>
                     </div>
-                  ))}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2 items-center">
+                  <div className="flex rounded-md border border-[#D4BFA0] overflow-hidden" role="group" aria-label="Review view">
+                    {([['outline', 'By Outline'], ['tags', 'By Tag']] as const).map(([view, label]) => (
+                      <button
+                        key={view}
+                        type="button"
+                        onClick={() => setReviewView(view)}
+                        aria-pressed={reviewView === view}
+                        className={`px-3 py-1 text-sm ${reviewView === view ? 'bg-[#8B593E] text-white' : 'bg-white text-[#4A2B1B]'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {tags.length > 0 && (
+                    <Select value={reviewTagId} onValueChange={setReviewTagId}>
+                      <SelectTrigger className={`w-48 ${styles.select}`}>
+                        <SelectValue placeholder="Filter by tag" />
+                      </SelectTrigger>
+                      <SelectContent className={styles.selectContent}>
+                        <SelectItem value={ALL_TAGS}>All entries</SelectItem>
+                        {tags.map(tag => (
+                          <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+
+                <div className="space-y-6">
+                  {reviewView === 'outline' ? renderReviewTree(outlinePoints, 0) : renderTagGroups()}
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,184 @@
+import type { CitationStyle, Contributor } from './types';
+
+export const createContributor = (corporate = false): Contributor => ({ given: '', family: '', corporate });
+
+const isEmpty = (contributor: Contributor) => !contributor.family.trim() && !contributor.given.trim();
+
+/**
+ * Splits a name list at "and" and, unless turned off for BibTeX, ";". Never
+ * splits inside braces, so "{Barnes and Noble}" stays one name.
+ */
+export const splitNameList = (value: string, { semicolons = true } = {}) => {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '{') depth++;
+    else if (char === '}') depth = Math.max(0, depth - 1);
+    if (depth > 0) continue;
+    const separator = semicolons && char === ';' ? ';' : /^\s+and\s+/i.exec(value.slice(i))?.[0];
+    if (separator) {
+      names.push(value.slice(start, i));
+      i += separator.length - 1;
+      start = i + 1;
+    }
+  }
+  names.push(value.slice(start));
+  return names;
+};
+
+/**
+ * Parses a free-text name list such as "Smith, John and Jane Doe; WHO" into
+ * contributors. Used for data saved before names were structured and for
+ * imported files. Single-word names without a comma are treated as corporate,
+ * as is anything in braces; "&" is left to the name it belongs to ("AT&T").
+ */
+export const parseNames = (value: string): Contributor[] =>
+  splitNameList(value)
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => {
+      const braced = /^\{(.*)\}$/.exec(name);
+      if (braced) return { given: '', family: braced[1], corporate: true };
+      if (name.includes(',')) {
+        const [family, ...given] = name.split(',');
+        return { given: given.join(',').trim(), family: family.trim(), corporate: false };
+      }
+      const words = name.split(/\s+/);
+      if (words.length === 1) return { given: '', family: name, corporate: true };
+      return { given: words.slice(0, -1).join(' '), family: words[words.length - 1], corporate: false };
+    });
+
+// "John Michael" → "J. M.", "Jean-Paul" → "J.-P."
+export const initials = (given: string) =>
+  given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => part.split('-').map(piece => `${piece.charAt(0).toUpperCase()}.`).join('-'))
+    .join(' ');
+
+const fullName = ({ given, family, corporate }: Contributor) =>
+  corporate || !given ? family : `${given} ${family}`;
+
+const invertedName = ({ given, family, corporate }: Contributor) =>
+  corporate || !given ? family : `${family}, ${given}`;
+
+const apaName = ({ given, family, corporate }: Contributor) =>
+  corporate || !given ? family : `${family}, ${initials(given)}`;
+
+const initialsFirstName = ({ given, family, corporate }: Contributor) =>
+  corporate || !given ? family : `${initials(given)} ${family}`;
+
+// "A", "A and B", "A, B, and C"
+const joinSeries = (names: string[], conjunction: string) => {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]} ${conjunction} ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}, ${conjunction} ${names[names.length - 1]}`;
+};
+
+/**
+ * Formats the author list for a reference-list or bibliography entry:
+ * APA inverts every name with initials and joins with "&" (up to 20, then an
+ * ellipsis before the last); MLA inverts the first name and uses "et al." for
+ * three or more; IEEE puts initials first (et al. from seven); Chicago and
+ * Turabian invert only the first author (first seven then et al. beyond ten).
+ */
+export const formatAuthors = (contributors: Contributor[], style: CitationStyle): string => {
+  const names = contributors.filter(contributor => !isEmpty(contributor));
+  if (names.length === 0) return '';
+
+  switch (style) {
+    case 'apa': {
+      const formatted = names.map(apaName);
+      if (formatted.length === 1) return formatted[0];
+      if (formatted.length === 2) return `${formatted[0]}, & ${formatted[1]}`;
+      if (formatted.length > 20) {
+        return `${formatted.slice(0, 19).join(', ')}, . . . ${formatted[formatted.length - 1]}`;
+      }
+      return `${formatted.slice(0, -1).join(', ')}, & ${formatted[formatted.length - 1]}`;
+    }
+
+    case 'mla':
+      if (names.length === 1) return invertedName(names[0]);
+      if (names.length === 2) return `${invertedName(names[0])}, and ${fullName(names[1])}`;
+      return `${invertedName(names[0])}, et al.`;
+
+    case 'ieee':
+      if (names.length >= 7) return `${initialsFirstName(names[0])} et al.`;
+      return joinSeries(names.map(initialsFirstName), 'and');
+
+    case 'chicago':
+    case 'turabian': {
+      const listed = names.length > 10 ? names.slice(0, 7) : names;
+      const formatted = listed.map((name, index) => (index === 0 ? invertedName(name) : fullName(name)));
+      if (names.length > 10) return `${formatted.join(', ')}, et al.`;
+      if (formatted.length === 2) return `${formatted[0]}, and ${formatted[1]}`;
+      return joinSeries(formatted, 'and');
+    }
+
+    default:
+      return names.map(fullName).join(', ');
+  }
+};
+
+/**
+ * Formats the editors of an edited book as they appear inside a chapter
+ * citation: "J. Smith & K. Lee" (APA), "J. Smith and K. Lee" (IEEE) or
+ * "John Smith and Kim Lee" (MLA, Chicago, Turabian; MLA uses et al. for 3+).
+ */
+export const formatEditors = (contributors: Contributor[], style: CitationStyle): string => {
+  const names = contributors.filter(contributor => !isEmpty(contributor));
+  if (names.length === 0) return '';
+
+  switch (style) {
+    case 'apa': {
+      const formatted = names.map(initialsFirstName);
+      if (formatted.length === 1) return formatted[0];
+      if (formatted.length === 2) return `${formatted[0]} & ${formatted[1]}`;
+      return `${formatted.slice(0, -1).join(', ')}, & ${formatted[formatted.length - 1]}`;
+    }
+    case 'mla':
+      if (names.length >= 3) return `${fullName(names[0])} et al.`;
+      return joinSeries(names.map(fullName), 'and');
+    case 'ieee':
+      return joinSeries(names.map(initialsFirstName), 'and');
+    default:
+      return joinSeries(names.map(fullName), 'and');
+  }
+};
+
+export const countNames = (contributors: Contributor[]) =>
+  contributors.filter(contributor => !isEmpty(contributor)).length;
+
+// Family name of the first author, or the corporate name, for sorting and keys
+export const leadName = (contributors: Contributor[]) =>
+  contributors.find(contributor => !isEmpty(contributor))?.family.trim() ?? '';
+
+// Plain "Smith, John; Doe, Jane" summary for previews and search
+export const summarizeNames = (contributors: Contributor[]) =>
+  contributors.filter(contributor => !isEmpty(contributor)).map(invertedName).join('; ');
+
+/**
+ * Formats authors for a Chicago note. Full notes give names in normal order
+ * ("John Smith and Jane Doe"); shortened notes give family names only. Four
+ * or more authors become the first name plus "et al." in both forms.
+ */
+export const formatNoteAuthors = (contributors: Contributor[], form: 'full' | 'short'): string => {
+  const names = contributors.filter(contributor => !isEmpty(contributor));
+  const format = form === 'full' ? fullName : (contributor: Contributor) => contributor.family;
+  if (names.length >= 4) return `${format(names[0])} et al.`;
+  return joinSeries(names.map(format), 'and');
+};
+
+/**
+ * Formats authors for an in-text citation, by family name only. APA joins two
+ * with "&" and MLA with "and"; both use "et al." from three. Turabian's
+ * author-date form lists up to three and uses "et al." from four.
+ */
+export const formatInTextAuthors = (contributors: Contributor[], style: CitationStyle): string => {
+  const names = contributors.filter(contributor => !isEmpty(contributor)).map(contributor => contributor.family.trim());
+  const maxListed = style === 'apa' || style === 'mla' ? 2 : 3;
+  if (names.length > maxListed) return `${names[0]} et al.`;
+  return joinSeries(names, style === 'apa' ? '&' : 'and');
+};
@@ -0,0 +1,185 @@
+import type { OutlinePoint } from './types';
+
+export interface FlatOutlinePoint {
+  point: OutlinePoint;
+  depth: number;
+  // The point's own marker, e.g. "b."
+  label: string;
+  // Markers from the top level down, e.g. "2.b.iii" or "2.b.iii(1)"
+  path: string;
+  parentId: string | null;
+}
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+const toRoman = (value: number) =>
+  ROMAN_NUMERALS.reduce((result, [amount, numeral]) => {
+    const count = Math.floor(value / amount);
+    value -= count * amount;
+    return result + numeral.repeat(count);
+  }, '');
+
+// 1 → "a", 26 → "z", 27 → "aa"
+const toLetters = (value: number): string =>
+  value > 26 ? toLetters(Math.floor((value - 1) / 26)) + toLetters(((value - 1) % 26) + 1) : String.fromCharCode(96 + value);
+
+// The bare marker for the point at index among its siblings: 1, a, i, then repeating
+const outlineMarker = (index: number, depth: number) => {
+  const position = index + 1;
+  const kind = depth % 3;
+  return kind === 0 ? String(position) : kind === 1 ? toLetters(position) : toRoman(position);
+};
+
+/**
+ * The label shown before a point: "1.", "a.", "i." for the first three
+ * levels, then "(1)", "(a)", "(i)" and so on for deeper ones.
+ */
+export const outlineLabel = (index: number, depth: number) => {
+  const marker = outlineMarker(index, depth);
+  return depth < 3 ? `${marker}.` : `(${marker})`;
+};
+
+/**
+ * Lists every point in document order with its depth and numbering, for
+ * pickers and anywhere the tree is shown as a flat list.
+ */
+export const flattenOutline = (
+  points: OutlinePoint[],
+  depth = 0,
+  parent: FlatOutlinePoint | null = null
+): FlatOutlinePoint[] =>
+  points.flatMap((point, index) => {
+    const marker = outlineMarker(index, depth);
+    const flat: FlatOutlinePoint = {
+      point,
+      depth,
+      label: outlineLabel(index, depth),
+      path: !parent ? marker : depth < 3 ? `${parent.path}.${marker}` : `${parent.path}(${marker})`,
+      parentId: parent ? parent.point.id : null
+    };
+    return [flat, ...flattenOutline(point.children, depth + 1, flat)];
+  });
+
+/**
+ * Adds a point as the last child of parentId, or at the top level when
+ * parentId is null. The point's level follows from where it lands.
+ */
+export const addOutlinePoint = (
+  points: OutlinePoint[],
+  parentId: string | null,
+  point: OutlinePoint
+): OutlinePoint[] => {
+  if (parentId === null) return [...points, { ...point, level: 'main' }];
+  return points.map(existing => existing.id === parentId
+    ? { ...existing, children: [...existing.children, { ...point, level: 'sub' }] }
+    : { ...existing, children: addOutlinePoint(existing.children, parentId, point) });
+};
+
+export const removeOutlinePoint = (points: OutlinePoint[], pointId: string): OutlinePoint[] =>
+  points
+    .filter(point => point.id !== pointId)
+    .map(point => ({ ...point, children: removeOutlinePoint(point.children, pointId) }));
+
+export const renameOutlinePoint = (points: OutlinePoint[], pointId: string, text: string): OutlinePoint[] =>
+  points.map(point => point.id === pointId
+    ? { ...point, text }
+    : { ...point, children: renameOutlinePoint(point.children, pointId, text) });
+
+export const findOutlinePoint = (points: OutlinePoint[], pointId: string): OutlinePoint | undefined =>
+  flattenOutline(points).find(flat => flat.point.id === pointId)?.point;
+
+// The ids of a point and everything beneath it
+export const subtreeIds = (point: OutlinePoint): string[] =>
+  [point.id, ...point.children.flatMap(subtreeIds)];
+
+// Where a dragged point lands relative to the point it is dropped on
+export type DropPosition = 'before' | 'after' | 'inside';
+
+export type OutlineMove = 'up' | 'down' | 'indent' | 'outdent';
+
+// Resets each point's level to match its depth after a move
+const withLevels = (points: OutlinePoint[], depth = 0): OutlinePoint[] =>
+  points.map(point => ({
+    ...point,
+    level: depth === 0 ? 'main' : 'sub',
+    children: withLevels(point.children, depth + 1)
+  }));
+
+const insertPoint = (
+  points: OutlinePoint[],
+  point: OutlinePoint,
+  targetId: string,
+  position: DropPosition
+): OutlinePoint[] =>
+  points.flatMap(existing => {
+    if (existing.id === targetId) {
+      if (position === 'before') return [point, existing];
+      if (position === 'after') return [existing, point];
+      return [{ ...existing, children: [...existing.children, point] }];
+    }
+    return [{ ...existing, children: insertPoint(existing.children, point, targetId, position) }];
+  });
+
+/**
+ * Moves a point, with everything beneath it, before, after or inside another
+ * point. Research entries follow automatically since they cite the point by
+ * id. Dropping a point onto itself or its own descendants changes nothing.
+ */
+export const moveOutlinePoint = (
+  points: OutlinePoint[],
+  pointId: string,
+  targetId: string,
+  position: DropPosition
+): OutlinePoint[] => {
+  const point = findOutlinePoint(points, pointId);
+  if (!point || subtreeIds(point).includes(targetId)) return points;
+  return withLevels(insertPoint(removeOutlinePoint(points, pointId), point, targetId, position));
+};
+
+// A point's parent and siblings, or null when the point isn't in the tree
+const locatePoint = (points: OutlinePoint[], pointId: string) => {
+  const flat = flattenOutline(points).find(item => item.point.id === pointId);
+  if (!flat) return null;
+  const siblings = flat.parentId ? findOutlinePoint(points, flat.parentId)?.children ?? [] : points;
+  return { parentId: flat.parentId, siblings, index: siblings.findIndex(sibling => sibling.id === pointId) };
+};
+
+/**
+ * The keyboard and button equivalents of dragging: swap with a neighbouring
+ * sibling, demote under the previous sibling, or promote to follow the parent.
+ */
+export const shiftOutlinePoint = (points: OutlinePoint[], pointId: string, move: OutlineMove): OutlinePoint[] => {
+  const location = locatePoint(points, pointId);
+  if (!location) return points;
+
+  const { parentId, siblings, index } = location;
+  const previous = siblings[index - 1];
+  const next = siblings[index + 1];
+  switch (move) {
+    case 'up':
+      return previous ? moveOutlinePoint(points, pointId, previous.id, 'before') : points;
+    case 'down':
+      return next ? moveOutlinePoint(points, pointId, next.id, 'after') : points;
+    case 'indent':
+      return previous ? moveOutlinePoint(points, pointId, previous.id, 'inside') : points;
+    case 'outdent':
+      return parentId ? moveOutlinePoint(points, pointId, parentId, 'after') : points;
+  }
+};
+
+// Which moves are possible for a point, for enabling its buttons
+export const availableMoves = (points: OutlinePoint[], pointId: string): Record<OutlineMove, boolean> => {
+  const location = locatePoint(points, pointId);
+  if (!location) return { up: false, down: false, indent: false, outdent: false };
+
+  const { parentId, siblings, index } = location;
+  return {
+    up: index > 0,
+    down: index < siblings.length - 1,
+    indent: index > 0,
+    outdent: parentId !== null
+  };
+};
@@ -0,0 +1,180 @@
+import { getStore } from '@/lib/storage';
+import { DEFAULT_ENTRY_KIND } from './entry-kinds';
+import { foldEmbeddedSources, type EmbeddedResearchEntry } from './sources';
+import type { ProjectData, ProjectField, ProjectMeta, ResearchEntry } from './types';
+
+const PROJECTS_KEY = 'projects';
+const CURRENT_PROJECT_KEY = 'currentProjectId';
+const PROJECT_FIELDS: ProjectField[] = ['thesis', 'outlinePoints', 'sources', 'tags', 'researchEntries', 'citationStyle'];
+const LEGACY_KEYS = ['thesis', 'outlinePoints', 'researchEntries'];
+
+export const DEFAULT_PROJECT_NAME = 'My Research Paper';
+
+export const emptyProjectData = (): ProjectData => ({
+  thesis: '',
+  outlinePoints: [],
+  sources: [],
+  tags: [],
+  researchEntries: [],
+  citationStyle: 'turabian'
+});
+
+// Each project's content is stored under its own namespace, e.g. "project:123:thesis"
+const projectKey = (projectId: string, field: ProjectField) => `project:${projectId}:${field}`;
+
+export const loadProjectIndex = async (): Promise<ProjectMeta[]> => {
+  const store = await getStore();
+  return (await store.get<ProjectMeta[]>(PROJECTS_KEY)) || [];
+};
+
+export const saveProjectIndex = async (projects: ProjectMeta[]) => {
+  const store = await getStore();
+  await store.set(PROJECTS_KEY, projects);
+};
+
+export const loadCurrentProjectId = async () => {
+  const store = await getStore();
+  // Ids left in localStorage by earlier versions are bare numeric strings, which parse as numbers
+  const saved = await store.get<string | number>(CURRENT_PROJECT_KEY);
+  return saved ? String(saved) : '';
+};
+
+export const saveCurrentProjectId = async (projectId: string) => {
+  const store = await getStore();
+  await store.set(CURRENT_PROJECT_KEY, projectId);
+};
+
+export const loadProjectData = async (projectId: string): Promise<ProjectData> => {
+  const store = await getStore();
+  const data = emptyProjectData();
+  const savedThesis = await store.get<string>(projectKey(projectId, 'thesis'));
+  const savedOutlinePoints = await store.get<ProjectData['outlinePoints']>(projectKey(projectId, 'outlinePoints'));
+  const savedSources = await store.get<ProjectData['sources']>(projectKey(projectId, 'sources'));
+  const savedTags = await store.get<ProjectData['tags']>(projectKey(projectId, 'tags'));
+  const savedResearchEntries = await store.get<Array<ResearchEntry | EmbeddedResearchEntry>>(
+    projectKey(projectId, 'researchEntries')
+  );
+  const savedCitationStyle = await store.get<ProjectData['citationStyle']>(projectKey(projectId, 'citationStyle'));
+
+  if (savedThesis) data.thesis = savedThesis;
+  if (savedOutlinePoints) data.outlinePoints = savedOutlinePoints;
+  // Entries saved before the source library carry their own bibliography; fold those into sources
+  const library = foldEmbeddedSources(savedSources || [], savedResearchEntries || []);
+  data.sources = library.sources;
+  data.researchEntries = withEntryDefaults(library.researchEntries);
+  if (savedTags) data.tags = savedTags;
+  if (savedCitationStyle) data.citationStyle = savedCitationStyle;
+  return data;
+};
+
+/**
+ * Writes one field of a project. Resolves to false when the stored value was
+ * already identical, so callers only bump the modified date on real changes.
+ */
+export const saveProjectField = async <K extends ProjectField>(
+  projectId: string,
+  field: K,
+  value: ProjectData[K]
+): Promise<boolean> => {
+  const store = await getStore();
+  const key = projectKey(projectId, field);
+  if (JSON.stringify(await store.get(key)) === JSON.stringify(value)) return false;
+  await store.set(key, value);
+  return true;
+};
+
+export const saveProjectData = async (projectId: string, data: ProjectData) => {
+  await saveProjectField(projectId, 'thesis', data.thesis);
+  await saveProjectField(projectId, 'outlinePoints', data.outlinePoints);
+  await saveProjectField(projectId, 'sources', data.sources);
+  await saveProjectField(projectId, 'tags', data.tags);
+  await saveProjectField(projectId, 'researchEntries', data.researchEntries);
+  await saveProjectField(projectId, 'citationStyle', data.citationStyle);
+};
+
+export const deleteProjectData = async (projectId: string) => {
+  const store = await getStore();
+  await Promise.all(PROJECT_FIELDS.map(field => store.remove(projectKey(projectId, field))));
+};
+
+export const createProjectMeta = (name: string): ProjectMeta => {
+  const now = new Date().toISOString();
+  return {
+    id: Date.now().toString(),
+    name,
+    createdAt: now,
+    modifiedAt: now
+  };
+};
+
+// Entries saved before tags, kinds and locators existed get their defaults
+const withEntryDefaults = (entries: ResearchEntry[]): ResearchEntry[] =>
+  entries.map(entry => ({
+    ...entry,
+    tagIds: Array.isArray(entry.tagIds) ? entry.tagIds : [],
+    kind: entry.kind ?? DEFAULT_ENTRY_KIND,
+    locator: entry.locator ?? null
+  }));
+
+const isProjectStorageKey = (key: string) =>
+  key === PROJECTS_KEY || key === CURRENT_PROJECT_KEY || key.startsWith('project:');
+
+/**
+ * Moves projects saved by earlier versions out of localStorage and into the
+ * IndexedDB store. Nothing happens when the store is itself localStorage.
+ */
+const migrateLocalStorageProjects = async () => {
+  const store = await getStore();
+  if (store.kind !== 'indexeddb') return;
+
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    .filter((key): key is string => key !== null && isProjectStorageKey(key));
+
+  for (const key of keys) {
+    const saved = localStorage.getItem(key);
+    if (saved === null) continue;
+    // The current project id was written as a bare string rather than JSON
+    await store.set(key, key === CURRENT_PROJECT_KEY ? saved : JSON.parse(saved));
+  }
+  keys.forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Moves data saved by the single-workspace version (the fixed 'thesis',
+ * 'outlinePoints' and 'researchEntries' keys) into a project of its own.
+ * Resolves to the migrated project, or null when there was nothing to migrate.
+ */
+const migrateLegacyWorkspace = async (): Promise<ProjectMeta | null> => {
+  const savedThesis = localStorage.getItem('thesis');
+  const savedOutlinePoints = localStorage.getItem('outlinePoints');
+  const savedResearchEntries = localStorage.getItem('researchEntries');
+  if (savedThesis === null && savedOutlinePoints === null && savedResearchEntries === null) {
+    return null;
+  }
+
+  const project = createProjectMeta(DEFAULT_PROJECT_NAME);
+  await saveProjectData(project.id, {
+    thesis: savedThesis || '',
+    outlinePoints: savedOutlinePoints ? JSON.parse(savedOutlinePoints) : [],
+    ...foldEmbeddedSources([], savedResearchEntries ? JSON.parse(savedResearchEntries) : []),
+    tags: [],
+    citationStyle: 'turabian'
+  });
+  LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  return project;
+};
+
+/**
+ * Loads the project index, first migrating any data left in localStorage by
+ * earlier versions. Always resolves to at least one project.
+ */
+export const initializeProjects = async (): Promise<ProjectMeta[]> => {
+  await migrateLocalStorageProjects();
+
+  let projects = await loadProjectIndex();
+  if (projects.length === 0) {
+    projects = [(await migrateLegacyWorkspace()) || createProjectMeta(DEFAULT_PROJECT_NAME)];
+    await saveProjectIndex(projects);
+  }
+  return projects;
+};
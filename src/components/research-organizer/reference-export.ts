@@ -0,0 +1,263 @@
+import { leadName } from './names';
+import { citedSources } from './sources';
+import type { BibEntry, Contributor, ResearchEntry, Source, SourceType } from './types';
+
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { label: string; extension: string; mimeType: string }> = {
+  bibtex: { label: 'BibTeX (.bib)', extension: 'bib', mimeType: 'application/x-bibtex' },
+  ris: { label: 'RIS (.ris)', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  'csl-json': { label: 'CSL-JSON (.json)', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' }
+};
+
+const pageRange = (pages: string) => {
+  const [start, end] = pages.split(/\s*[-–—]+\s*/);
+  return { start: start || '', end: end || '' };
+};
+
+/**
+ * Generates "smith2020testing"-style keys, adding a, b, c... to duplicates.
+ */
+export const generateCitationKeys = (sources: BibEntry[]): string[] => {
+  const counts = new Map<string, number>();
+  const baseKeys = sources.map(bib => {
+    const family = leadName(bib.authors) || bib.organization || 'anon';
+    const titleWord = bib.title
+      .toLowerCase()
+      .split(/\s+/)
+      .find(word => word.replace(/[^a-z0-9]/g, '').length > 3 && !['the', 'with', 'from', 'into'].includes(word)) || '';
+    const base = `${family}${bib.year}${titleWord}`
+      .normalize('NFD')
+      .replace(/[^A-Za-z0-9]/g, '')
+      .toLowerCase();
+    counts.set(base, (counts.get(base) || 0) + 1);
+    return base || 'source';
+  });
+
+  const seen = new Map<string, number>();
+  return baseKeys.map(base => {
+    if ((counts.get(base) || 0) < 2) return base;
+    const index = seen.get(base) || 0;
+    seen.set(base, index + 1);
+    return `${base}${String.fromCharCode(97 + index)}`;
+  });
+};
+
+/* ------------------------------------------------------------------ */
+/* BibTeX                                                              */
+/* ------------------------------------------------------------------ */
+
+const BIBTEX_TYPES: Record<SourceType, string> = {
+  book: 'book',
+  journal: 'article',
+  website: 'online',
+  newspaper: 'article',
+  chapter: 'incollection'
+};
+
+const escapeBibTeX = (value: string) => value.replace(/([&%$#_])/g, '\\$1').replace(/[{}]/g, '');
+
+// Fields biblatex reads verbatim, so escaping would end up in the link itself. A
+// stray brace would unbalance the entry, so it is percent-encoded as in any URL.
+const VERBATIM_FIELDS = new Set(['url', 'doi', 'urldate']);
+const encodeVerbatim = (value: string) => value.replace(/\{/g, '%7B').replace(/\}/g, '%7D');
+
+// Corporate names are braced so BibTeX doesn't split them into given and family parts
+const bibTeXNames = (contributors: Contributor[]) =>
+  contributors
+    .filter(({ family }) => family)
+    .map(({ family, given, corporate }) => (corporate || !given ? `{${family}}` : `${family}, ${given}`))
+    .join(' and ');
+
+const risName = ({ family, given, corporate }: Contributor) => (corporate || !given ? family : `${family}, ${given}`);
+
+const toBibTeXEntry = (bib: BibEntry, key: string) => {
+  const fields: Array<[string, string]> = [
+    ['author', bibTeXNames(bib.authors)],
+    ['title', bib.title],
+    ['year', bib.year],
+    ['doi', bib.doi]
+  ];
+
+  switch (bib.sourceType) {
+    case 'book':
+      fields.push(['publisher', bib.publisher], ['address', bib.city], ['edition', bib.edition]);
+      break;
+    case 'journal':
+      fields.push(['journal', bib.journalName], ['volume', bib.volume], ['number', bib.issue], ['pages', bib.pages.replace(/\s*[-–—]+\s*/g, '--')]);
+      break;
+    case 'website':
+      fields.push(['howpublished', bib.websiteName], ['organization', bib.organization], ['url', bib.url], ['urldate', bib.accessDate]);
+      break;
+    case 'newspaper':
+      fields.push(['entrysubtype', 'newspaper'], ['journal', bib.newspaperName], ['pages', bib.pages.replace(/\s*[-–—]+\s*/g, '--')]);
+      break;
+    case 'chapter':
+      fields.push(
+        ['booktitle', bib.bookTitle],
+        ['editor', bibTeXNames(bib.editors)],
+        ['pages', bib.chapterPages.replace(/\s*[-–—]+\s*/g, '--')],
+        ['publisher', bib.publisher],
+        ['address', bib.city]
+      );
+      break;
+  }
+  if (bib.sourceType !== 'website' && bib.url) fields.push(['url', bib.url]);
+
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => {
+      // Names already carry their own braces and verbatim fields stay as typed;
+      // everything else is escaped and wrapped once
+      const formatted = name === 'author' || name === 'editor'
+        ? value
+        : VERBATIM_FIELDS.has(name) ? encodeVerbatim(value) : escapeBibTeX(value);
+      return `  ${name} = {${name === 'title' ? `{${formatted}}` : formatted}}`;
+    })
+    .join(',\n');
+  return `@${BIBTEX_TYPES[bib.sourceType]}{${key},\n${body}\n}`;
+};
+
+export const toBibTeX = (sources: BibEntry[]) => {
+  const keys = generateCitationKeys(sources);
+  return sources.map((bib, index) => toBibTeXEntry(bib, keys[index])).join('\n\n') + '\n';
+};
+
+/* ------------------------------------------------------------------ */
+/* RIS                                                                 */
+/* ------------------------------------------------------------------ */
+
+const RIS_TYPES: Record<SourceType, string> = {
+  book: 'BOOK',
+  journal: 'JOUR',
+  website: 'ELEC',
+  newspaper: 'NEWS',
+  chapter: 'CHAP'
+};
+
+const toRISRecord = (bib: BibEntry, key: string) => {
+  const lines: Array<[string, string]> = [['TY', RIS_TYPES[bib.sourceType]], ['ID', key]];
+  bib.authors.filter(({ family }) => family).forEach(author => lines.push(['AU', risName(author)]));
+  lines.push(['TI', bib.title], ['PY', bib.year], ['DO', bib.doi], ['UR', bib.url]);
+
+  const addPages = (pages: string) => {
+    const { start, end } = pageRange(pages);
+    lines.push(['SP', start], ['EP', end]);
+  };
+
+  switch (bib.sourceType) {
+    case 'book':
+      lines.push(['PB', bib.publisher], ['CY', bib.city], ['ET', bib.edition]);
+      break;
+    case 'journal':
+      lines.push(['JO', bib.journalName], ['VL', bib.volume], ['IS', bib.issue]);
+      addPages(bib.pages);
+      break;
+    case 'website':
+      lines.push(['T2', bib.websiteName], ['PB', bib.organization], ['Y2', bib.accessDate.replace(/-/g, '/')]);
+      break;
+    case 'newspaper':
+      lines.push(['T2', bib.newspaperName]);
+      addPages(bib.pages);
+      break;
+    case 'chapter':
+      lines.push(['T2', bib.bookTitle]);
+      bib.editors.filter(({ family }) => family).forEach(editor => lines.push(['A2', risName(editor)]));
+      lines.push(['PB', bib.publisher], ['CY', bib.city]);
+      addPages(bib.chapterPages);
+      break;
+  }
+
+  return [...lines.filter(([, value]) => value), ['ER', '']]
+    .map(([tag, value]) => `${tag}  - ${value}`)
+    .join('\r\n');
+};
+
+export const toRIS = (sources: BibEntry[]) => {
+  const keys = generateCitationKeys(sources);
+  return sources.map((bib, index) => toRISRecord(bib, keys[index])).join('\r\n\r\n') + '\r\n';
+};
+
+/* ------------------------------------------------------------------ */
+/* CSL-JSON                                                            */
+/* ------------------------------------------------------------------ */
+
+const CSL_TYPES: Record<SourceType, string> = {
+  book: 'book',
+  journal: 'article-journal',
+  website: 'webpage',
+  newspaper: 'article-newspaper',
+  chapter: 'chapter'
+};
+
+type CSLName = { family: string; given?: string } | { literal: string };
+
+const cslNames = (contributors: Contributor[]): CSLName[] =>
+  contributors
+    .filter(({ family }) => family)
+    .map(({ family, given, corporate }) => (corporate || !given ? { literal: family } : { family, given }));
+
+const cslDate = (value: string) => {
+  const parts = value.split('-').map(Number).filter(part => !Number.isNaN(part) && part > 0);
+  return parts.length > 0 ? { 'date-parts': [parts] } : undefined;
+};
+
+const toCSLItem = (bib: BibEntry, key: string) => {
+  const item: Record<string, unknown> = {
+    id: key,
+    type: CSL_TYPES[bib.sourceType],
+    title: bib.title,
+    author: cslNames(bib.authors),
+    issued: cslDate(bib.year),
+    DOI: bib.doi,
+    URL: bib.url
+  };
+
+  switch (bib.sourceType) {
+    case 'book':
+      Object.assign(item, { publisher: bib.publisher, 'publisher-place': bib.city, edition: bib.edition });
+      break;
+    case 'journal':
+      Object.assign(item, { 'container-title': bib.journalName, volume: bib.volume, issue: bib.issue, page: bib.pages });
+      break;
+    case 'website':
+      Object.assign(item, { 'container-title': bib.websiteName, publisher: bib.organization, accessed: cslDate(bib.accessDate) });
+      break;
+    case 'newspaper':
+      Object.assign(item, { 'container-title': bib.newspaperName, page: bib.pages });
+      break;
+    case 'chapter':
+      Object.assign(item, {
+        'container-title': bib.bookTitle,
+        editor: cslNames(bib.editors),
+        page: bib.chapterPages,
+        publisher: bib.publisher,
+        'publisher-place': bib.city
+      });
+      break;
+  }
+
+  // CSL processors treat empty strings and arrays as present, so leave them out
+  return Object.fromEntries(
+    Object.entries(item).filter(([, value]) =>
+      value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+  );
+};
+
+export const toCSLJSON = (sources: BibEntry[]) => {
+  const keys = generateCitationKeys(sources);
+  return JSON.stringify(sources.map((bib, index) => toCSLItem(bib, keys[index])), null, 2);
+};
+
+// Exports the library sources that the project's research entries actually cite
+export const exportBibliography = (sources: Source[], researchEntries: ResearchEntry[], format: BibliographyFormat) => {
+  const bibliographies = citedSources(sources, researchEntries).map(source => source.bibliography);
+  switch (format) {
+    case 'bibtex':
+      return toBibTeX(bibliographies);
+    case 'ris':
+      return toRIS(bibliographies);
+    case 'csl-json':
+      return toCSLJSON(bibliographies);
+  }
+};
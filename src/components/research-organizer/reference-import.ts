@@ -0,0 +1,466 @@
+import { createEmptyBibEntry } from './bib-entry';
+import { splitNameList } from './names';
+import type { BibEntry, BibTextField, Contributor, SourceType } from './types';
+
+export interface ImportedReference {
+  // Citation key for BibTeX, record number for RIS
+  key: string;
+  originalType: string;
+  bibEntry: BibEntry;
+  // Fields from the file with no BibEntry counterpart, shown in the preview
+  unmappedFields: Record<string, string>;
+}
+
+export interface ReferenceImportResult {
+  references: ImportedReference[];
+  errors: string[];
+}
+
+/* ------------------------------------------------------------------ */
+/* BibTeX                                                              */
+/* ------------------------------------------------------------------ */
+
+const BIBTEX_TYPES: Record<string, SourceType> = {
+  article: 'journal',
+  periodical: 'journal',
+  book: 'book',
+  mvbook: 'book',
+  booklet: 'book',
+  manual: 'book',
+  techreport: 'book',
+  report: 'book',
+  phdthesis: 'book',
+  mastersthesis: 'book',
+  thesis: 'book',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  inproceedings: 'chapter',
+  conference: 'chapter',
+  online: 'website',
+  electronic: 'website',
+  webpage: 'website',
+  www: 'website'
+};
+
+const BIBTEX_MONTHS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December'
+};
+
+// Combining marks for LaTeX accent commands, e.g. \"o → ö
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303',
+  '=': '\u0304', '.': '\u0307', 'c': '\u0327', 'v': '\u030C', 'u': '\u0306', 'H': '\u030B'
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', o: 'ø', O: 'Ø', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı'
+};
+
+/**
+ * Turns the LaTeX that reference managers commonly emit (accents, escaped
+ * characters, protective braces, dashes) into plain text.
+ */
+const decodeLatex = (value: string) =>
+  value
+    .replace(/\\([`'"^~=.])\s*\{?\\?([A-Za-z])\}?/g, (_, accent: string, letter: string) =>
+      (letter + LATEX_ACCENTS[accent]).normalize('NFC'))
+    .replace(/\\([cvuH])\s*\{\\?([A-Za-z])\}/g, (_, accent: string, letter: string) =>
+      (letter + LATEX_ACCENTS[accent]).normalize('NFC'))
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i)\b\s*/g, (_, symbol: string) => LATEX_SYMBOLS[symbol])
+    .replace(/\\textemdash\b\s*|---/g, '—')
+    .replace(/\\textendash\b\s*|--/g, '–')
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\(?:emph|textit|textbf|textsc|mkbibquote)\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Reads a braced, quoted or, for `@type(...)` entries, parenthesized value
+// starting at `start`; returns it and the index after it
+const readDelimited = (source: string, start: number): [string, number] => {
+  const open = source[start];
+  if (open === '(') {
+    // Only a ")" outside braces and quotes closes the entry, so "{Effects (revisited)}" stays whole
+    let depth = 0;
+    let quoted = false;
+    for (let i = start + 1; i < source.length; i++) {
+      if (source[i - 1] === '\\') continue;
+      if (source[i] === '{') depth++;
+      else if (source[i] === '}') depth--;
+      else if (source[i] === '"' && depth === 0) quoted = !quoted;
+      else if (source[i] === ')' && depth === 0 && !quoted) return [source.slice(start + 1, i), i + 1];
+    }
+  } else if (open === '"') {
+    let depth = 0;
+    for (let i = start + 1; i < source.length; i++) {
+      if (source[i] === '{') depth++;
+      else if (source[i] === '}') depth--;
+      else if (source[i] === '"' && depth === 0 && source[i - 1] !== '\\') {
+        return [source.slice(start + 1, i), i + 1];
+      }
+    }
+  } else {
+    let depth = 0;
+    for (let i = start; i < source.length; i++) {
+      if (source[i] === '{' && source[i - 1] !== '\\') depth++;
+      else if (source[i] === '}' && source[i - 1] !== '\\') {
+        depth--;
+        if (depth === 0) return [source.slice(start + 1, i), i + 1];
+      }
+    }
+  }
+  throw new Error(open === '(' ? 'unterminated entry' : 'unbalanced braces or quotes');
+};
+
+// Parses `field = value # value, ...` pairs from an entry body
+const parseBibTeXFields = (body: string, strings: Record<string, string>) => {
+  const fields: Record<string, string> = {};
+  let i = 0;
+
+  while (i < body.length) {
+    const nameMatch = /^[\s,]*([\w:.-]+)\s*=\s*/.exec(body.slice(i));
+    if (!nameMatch) break;
+    const name = nameMatch[1].toLowerCase();
+    i += nameMatch[0].length;
+
+    const parts: string[] = [];
+    while (i < body.length) {
+      if (body[i] === '{' || body[i] === '"') {
+        const [value, next] = readDelimited(body, i);
+        parts.push(value);
+        i = next;
+      } else {
+        const bare = /^[\w:.-]+/.exec(body.slice(i));
+        if (!bare) break;
+        const word = bare[0];
+        parts.push(strings[word.toLowerCase()] ?? BIBTEX_MONTHS[word.toLowerCase()] ?? word);
+        i += word.length;
+      }
+      const concat = /^\s*#\s*/.exec(body.slice(i));
+      if (!concat) break;
+      i += concat[0].length;
+    }
+    fields[name] = parts.join('');
+  }
+  return fields;
+};
+
+// "Smith, John and Jane Doe and {World Health Organization}" → contributors;
+// braced names are corporate, "First Last" names are split at the last word
+const parseBibTeXNames = (value: string): Contributor[] =>
+  splitNameList(value, { semicolons: false })
+    .map(name => name.trim())
+    .filter(name => name && name.toLowerCase() !== 'others')
+    .map(name => {
+      if (/^\{.*\}$/.test(name)) return { given: '', family: decodeLatex(name), corporate: true };
+      if (name.includes(',')) {
+        const [family, ...given] = name.split(',');
+        return { given: decodeLatex(given.join(',')), family: decodeLatex(family), corporate: false };
+      }
+      const words = decodeLatex(name).split(/\s+/);
+      return words.length > 1
+        ? { given: words.slice(0, -1).join(' '), family: words[words.length - 1], corporate: false }
+        : { given: '', family: words[0], corporate: true };
+    });
+
+const yearFrom = (value: string) => /\d{4}/.exec(value)?.[0] ?? value;
+
+// Fields biblatex reads verbatim, where "~" and "--" are part of the value rather than LaTeX
+const VERBATIM_FIELDS = new Set(['url', 'doi', 'urldate']);
+
+const bibTeXToReference = (
+  type: string,
+  key: string,
+  rawFields: Record<string, string>
+): ImportedReference => {
+  const fields: Record<string, string> = {};
+  Object.entries(rawFields).forEach(([name, value]) => {
+    fields[name] = VERBATIM_FIELDS.has(name) ? value.trim() : decodeLatex(value);
+  });
+
+  let sourceType: SourceType = BIBTEX_TYPES[type] ?? (fields.url ? 'website' : 'book');
+  const isNewspaper = fields.entrysubtype === 'newspaper';
+  if (type === 'article' && isNewspaper) sourceType = 'newspaper';
+
+  const entry = createEmptyBibEntry(sourceType);
+  const used = new Set<string>(['entrysubtype']);
+  const take = (target: BibTextField, ...names: string[]) => {
+    const name = names.find(candidate => fields[candidate]);
+    if (!name || entry[target]) return;
+    entry[target] = fields[name];
+    used.add(name);
+  };
+
+  if (rawFields.author) {
+    entry.authors = parseBibTeXNames(rawFields.author);
+    used.add('author');
+  }
+  take('title', 'title');
+  if (fields.year || fields.date) {
+    entry.year = yearFrom(fields.year || fields.date);
+    used.add(fields.year ? 'year' : 'date');
+  }
+  take('doi', 'doi');
+  take('url', 'url', 'howpublished');
+  // The access date field expects YYYY-MM-DD; other date formats stay unmapped
+  if (/^\d{4}-\d{2}-\d{2}$/.test(fields.urldate ?? '')) {
+    entry.accessDate = fields.urldate;
+    used.add('urldate');
+  }
+  take('edition', 'edition');
+  take('volume', 'volume');
+  take('issue', 'number', 'issue');
+
+  switch (sourceType) {
+    case 'journal':
+      take('journalName', 'journal', 'journaltitle');
+      take('pages', 'pages');
+      break;
+    case 'newspaper':
+      take('newspaperName', 'journaltitle', 'journal');
+      take('pages', 'pages');
+      break;
+    case 'chapter':
+      // @inbook without a booktitle means the title is the book and chapter is the part
+      if (type === 'inbook' && !fields.booktitle && fields.chapter) {
+        entry.bookTitle = entry.title;
+        entry.title = fields.chapter;
+        used.add('chapter');
+      }
+      take('bookTitle', 'booktitle');
+      if (rawFields.editor) {
+        entry.editors = parseBibTeXNames(rawFields.editor);
+        used.add('editor');
+      }
+      take('chapterPages', 'pages');
+      take('publisher', 'publisher', 'organization');
+      take('city', 'address', 'location');
+      break;
+    case 'website':
+      take('websiteName', 'journaltitle', 'howpublished', 'publisher');
+      take('organization', 'organization', 'institution', 'publisher');
+      break;
+    default:
+      take('publisher', 'publisher', 'institution', 'school', 'organization');
+      take('city', 'address', 'location');
+  }
+
+  const unmappedFields = Object.fromEntries(
+    Object.entries(fields).filter(([name, value]) => !used.has(name) && value)
+  );
+  return { key, originalType: type, bibEntry: entry, unmappedFields };
+};
+
+export const parseBibTeX = (source: string): ReferenceImportResult => {
+  const references: ImportedReference[] = [];
+  const errors: string[] = [];
+  const strings: Record<string, string> = {};
+  const entryPattern = /@(\w+)\s*([{(])/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = entryPattern.exec(source))) {
+    const type = match[1].toLowerCase();
+    const bodyStart = match.index + match[0].length - 1;
+
+    let body: string;
+    try {
+      const [value, next] = readDelimited(source, bodyStart);
+      body = value;
+      entryPattern.lastIndex = next;
+    } catch (error) {
+      errors.push(`@${type} entry near character ${match.index}: ${(error as Error).message}.`);
+      break;
+    }
+
+    if (type === 'comment' || type === 'preamble') continue;
+    if (type === 'string') {
+      Object.assign(strings, parseBibTeXFields(body, strings));
+      continue;
+    }
+
+    const comma = body.indexOf(',');
+    const key = (comma === -1 ? body : body.slice(0, comma)).trim();
+    try {
+      const fields = parseBibTeXFields(comma === -1 ? '' : body.slice(comma + 1), strings);
+      references.push(bibTeXToReference(type, key, fields));
+    } catch (error) {
+      errors.push(`Entry "${key || type}": ${(error as Error).message}.`);
+    }
+  }
+
+  if (references.length === 0 && errors.length === 0) {
+    errors.push('No BibTeX entries were found in the file.');
+  }
+  return { references, errors };
+};
+
+/* ------------------------------------------------------------------ */
+/* RIS                                                                 */
+/* ------------------------------------------------------------------ */
+
+const RIS_TYPES: Record<string, SourceType> = {
+  JOUR: 'journal',
+  JFULL: 'journal',
+  EJOUR: 'journal',
+  MGZN: 'journal',
+  BOOK: 'book',
+  EBOOK: 'book',
+  EDBOOK: 'book',
+  RPRT: 'book',
+  THES: 'book',
+  CHAP: 'chapter',
+  ECHAP: 'chapter',
+  CONF: 'chapter',
+  CPAPER: 'chapter',
+  NEWS: 'newspaper',
+  ELEC: 'website',
+  WEB: 'website',
+  BLOG: 'website'
+};
+
+// RIS tags that may repeat; their values are joined rather than overwritten
+const RIS_LIST_TAGS = new Set(['AU', 'A1', 'A2', 'A3', 'ED', 'KW', 'N1', 'UR']);
+
+// RIS names are "Last, First[, Suffix]"; a name without a comma is an organization
+const risContributor = (name: string): Contributor => {
+  if (!name.includes(',')) return { given: '', family: name, corporate: true };
+  const [family, given] = name.split(',');
+  return { given: given.trim(), family: family.trim(), corporate: false };
+};
+
+const risToReference = (tags: Record<string, string[]>, index: number): ImportedReference => {
+  const type = tags.TY?.[0] ?? 'GEN';
+  const sourceType: SourceType = RIS_TYPES[type] ?? (tags.UR ? 'website' : 'book');
+  const entry = createEmptyBibEntry(sourceType);
+  const used = new Set<string>(['TY', 'ER', 'ID']);
+
+  const value = (tag: string) =>
+    tags[tag] ? tags[tag].join(RIS_LIST_TAGS.has(tag) ? ' and ' : ' ') : '';
+  const take = (target: BibTextField, ...candidates: string[]) => {
+    const tag = candidates.find(candidate => value(candidate));
+    if (!tag || entry[target]) return;
+    entry[target] = value(tag);
+    used.add(tag);
+  };
+
+  const authorTag = ['AU', 'A1'].find(tag => tags[tag]);
+  if (authorTag) {
+    entry.authors = tags[authorTag].filter(Boolean).map(risContributor);
+    used.add(authorTag);
+  }
+  take('title', 'TI', 'T1', 'CT');
+  const date = value('PY') || value('Y1') || value('DA');
+  if (date) {
+    entry.year = yearFrom(date);
+    ['PY', 'Y1', 'DA'].forEach(tag => tags[tag] && used.add(tag));
+  }
+  take('doi', 'DO');
+  take('url', 'UR', 'L2');
+  take('edition', 'ET');
+  take('volume', 'VL');
+  take('issue', 'IS');
+  take('publisher', 'PB');
+  take('city', 'CY');
+
+  const pageRange = [value('SP'), value('EP')].filter(Boolean).join('–');
+  const takePages = (target: BibTextField) => {
+    if (!pageRange) return;
+    entry[target] = pageRange;
+    used.add('SP');
+    used.add('EP');
+  };
+
+  switch (sourceType) {
+    case 'journal':
+      take('journalName', 'JO', 'JF', 'T2', 'JA', 'J2');
+      takePages('pages');
+      break;
+    case 'newspaper':
+      take('newspaperName', 'T2', 'JO', 'JF');
+      takePages('pages');
+      break;
+    case 'chapter':
+      take('bookTitle', 'T2', 'BT', 'T3');
+      const editorTag = ['A2', 'ED', 'A3'].find(tag => tags[tag]);
+      if (editorTag) {
+        entry.editors = tags[editorTag].filter(Boolean).map(risContributor);
+        used.add(editorTag);
+      }
+      takePages('chapterPages');
+      break;
+    case 'website':
+      take('websiteName', 'T2', 'PB');
+      take('organization', 'PB', 'A2');
+      break;
+  }
+
+  const accessDate = value('Y2').replace(/\//g, '-').replace(/-+$/, '');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(accessDate)) {
+    entry.accessDate = accessDate;
+    used.add('Y2');
+  }
+
+  const unmappedFields = Object.fromEntries(
+    Object.keys(tags)
+      .filter(tag => !used.has(tag) && value(tag))
+      .map(tag => [tag, value(tag)])
+  );
+  return { key: tags.ID?.[0] ?? `Record ${index + 1}`, originalType: type, bibEntry: entry, unmappedFields };
+};
+
+export const parseRIS = (source: string): ReferenceImportResult => {
+  const references: ImportedReference[] = [];
+  const errors: string[] = [];
+  let current: Record<string, string[]> | null = null;
+  let lastTag = '';
+
+  source.split(/\r?\n/).forEach((line, lineIndex) => {
+    const match = /^([A-Z][A-Z0-9])  -(?: (.*))?$/.exec(line);
+    if (!match) {
+      // Continuation of a long value wrapped onto the next line
+      if (current && lastTag && line.trim()) {
+        const values = current[lastTag];
+        values[values.length - 1] += ` ${line.trim()}`;
+      }
+      return;
+    }
+
+    const [, tag, rawValue = ''] = match;
+    if (tag === 'TY') {
+      if (current) errors.push(`Record ending before line ${lineIndex + 1} has no ER tag and was read anyway.`);
+      if (current) references.push(risToReference(current, references.length));
+      current = { TY: [rawValue.trim()] };
+    } else if (tag === 'ER') {
+      if (current) references.push(risToReference(current, references.length));
+      current = null;
+    } else if (current) {
+      (current[tag] ??= []).push(rawValue.trim());
+    } else {
+      errors.push(`Line ${lineIndex + 1} (${tag}) appears outside a record and was ignored.`);
+    }
+    lastTag = tag;
+  });
+
+  if (current) {
+    errors.push('The last record has no ER tag and was read anyway.');
+    references.push(risToReference(current, references.length));
+  }
+  if (references.length === 0 && errors.length === 0) {
+    errors.push('No RIS records were found in the file.');
+  }
+  return { references, errors };
+};
+
+/**
+ * Parses a reference file, choosing BibTeX or RIS from the extension and
+ * falling back to sniffing the content.
+ */
+export const parseReferenceFile = (fileName: string, source: string): ReferenceImportResult => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ris' || (extension !== 'bib' && /^TY  - /m.test(source))) {
+    return parseRIS(source);
+  }
+  return parseBibTeX(source);
+};
@@ -0,0 +1,76 @@
+import { summarizeNames } from './names';
+import { findOutlinePoint, subtreeIds } from './outline';
+import { findBibliography } from './sources';
+import type { BibEntry, OutlinePoint, ResearchEntry, Source, SourceType } from './types';
+
+export interface SearchFilters {
+  query: string;
+  sourceType: SourceType | 'all';
+  // Limits results to this point and everything beneath it
+  pointId: string | 'all';
+}
+
+export interface SearchResult {
+  entry: ResearchEntry;
+  bibliography: BibEntry | undefined;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export const searchTerms = (query: string) =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// The journal, newspaper, website or book a source appeared in, whichever applies
+export const containerTitle = (bib: BibEntry) =>
+  bib.journalName || bib.newspaperName || bib.websiteName || bib.bookTitle;
+
+const searchableText = (entry: ResearchEntry, bib: BibEntry | undefined) =>
+  [
+    entry.text,
+    bib ? summarizeNames(bib.authors) : '',
+    bib?.title,
+    bib ? containerTitle(bib) : '',
+    bib?.year
+  ].join('\n').toLowerCase();
+
+/**
+ * Finds research entries whose note or source (authors, title, journal or
+ * other container, year) contains every word of the query, in the order the
+ * entries were added. An empty query matches everything the filters allow.
+ */
+export const searchResearch = (
+  researchEntries: ResearchEntry[],
+  sources: Source[],
+  outlinePoints: OutlinePoint[],
+  filters: SearchFilters
+): SearchResult[] => {
+  const terms = searchTerms(filters.query);
+  const point = filters.pointId === 'all' ? undefined : findOutlinePoint(outlinePoints, filters.pointId);
+  const pointIds = point ? new Set(subtreeIds(point)) : null;
+
+  return researchEntries
+    .map(entry => ({ entry, bibliography: findBibliography(sources, entry.sourceId) }))
+    .filter(({ entry, bibliography }) => {
+      if (pointIds && !pointIds.has(entry.pointId)) return false;
+      if (filters.sourceType !== 'all' && bibliography?.sourceType !== filters.sourceType) return false;
+      const text = searchableText(entry, bibliography);
+      return terms.every(term => text.includes(term));
+    });
+};
+
+/**
+ * Splits text into runs so every occurrence of a query word can be marked.
+ */
+export const highlightMatches = (text: string, query: string): HighlightSegment[] => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`(${terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
@@ -0,0 +1,77 @@
+import { normalizeBibEntry, type StoredBibEntry } from './bib-entry';
+import { summarizeNames } from './names';
+import type { BibEntry, ResearchEntry, Source } from './types';
+
+// Entries saved before the source library each carried their own copy of the BibEntry
+export type EmbeddedResearchEntry = Omit<ResearchEntry, 'sourceId'> & { bibliography: StoredBibEntry };
+
+export const createSourceId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Two sources are the same source when every bibliography field matches
+const sourceKey = (bibliography: BibEntry) => JSON.stringify(bibliography);
+
+/**
+ * Looks sources up by content so identical bibliographies share one library
+ * entry. idFor returns the id of the matching source, adding the bibliography
+ * as a new source (under preferredId when that id is free) if none matches.
+ */
+export const createSourceIndex = (initial: Source[]) => {
+  const sources = [...initial];
+  const idsByKey = new Map(sources.map(source => [sourceKey(source.bibliography), source.id]));
+  const usedIds = new Set(sources.map(source => source.id));
+
+  const idFor = (bibliography: BibEntry, preferredId?: string) => {
+    const key = sourceKey(bibliography);
+    const existing = idsByKey.get(key);
+    if (existing) return existing;
+
+    const id = preferredId && !usedIds.has(preferredId) ? preferredId : createSourceId();
+    sources.push({ id, bibliography });
+    idsByKey.set(key, id);
+    usedIds.add(id);
+    return id;
+  };
+
+  return { sources, idFor };
+};
+
+/**
+ * Moves BibEntry copies embedded in research entries into the source library,
+ * folding identical copies into a single source. Entries that already cite a
+ * source by id pass through unchanged.
+ */
+export const foldEmbeddedSources = (
+  sources: Source[],
+  entries: Array<ResearchEntry | EmbeddedResearchEntry>
+): { sources: Source[]; researchEntries: ResearchEntry[] } => {
+  const index = createSourceIndex(sources);
+  const researchEntries = entries.map(entry => {
+    if (!('bibliography' in entry)) return entry;
+    const { bibliography, ...rest } = entry;
+    return { ...rest, sourceId: index.idFor(normalizeBibEntry(bibliography)) };
+  });
+  return { sources: index.sources, researchEntries };
+};
+
+export const findBibliography = (sources: Source[], sourceId: string): BibEntry | undefined =>
+  sources.find(source => source.id === sourceId)?.bibliography;
+
+/**
+ * The sources cited by at least one research entry, in the order first cited.
+ */
+export const citedSources = (sources: Source[], researchEntries: ResearchEntry[]): Source[] => {
+  const cited = new Set(researchEntries.map(entry => entry.sourceId));
+  const order = Array.from(cited);
+  return sources
+    .filter(source => cited.has(source.id))
+    .sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+};
+
+export const countCitations = (researchEntries: ResearchEntry[], sourceId: string) =>
+  researchEntries.filter(entry => entry.sourceId === sourceId).length;
+
+// "Smith, John · 2020 · Title" for pickers and lists
+export const describeSource = ({ bibliography }: Source) =>
+  [summarizeNames(bibliography.authors), bibliography.year, bibliography.title || '(untitled)']
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,51 @@
+import type { ResearchEntry, Tag, TagColor } from './types';
+
+export const TAG_COLORS: TagColor[] = ['amber', 'rose', 'sky', 'emerald', 'violet', 'stone'];
+
+// Written out in full so Tailwind keeps every class
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  amber: 'bg-amber-100 text-amber-900 border-amber-300',
+  rose: 'bg-rose-100 text-rose-900 border-rose-300',
+  sky: 'bg-sky-100 text-sky-900 border-sky-300',
+  emerald: 'bg-emerald-100 text-emerald-900 border-emerald-300',
+  violet: 'bg-violet-100 text-violet-900 border-violet-300',
+  stone: 'bg-stone-100 text-stone-900 border-stone-300'
+};
+
+export const createTag = (name: string, color: TagColor): Tag => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  color
+});
+
+// The next color in the palette, so consecutive new tags look different
+export const nextTagColor = (tags: Tag[]): TagColor => TAG_COLORS[tags.length % TAG_COLORS.length];
+
+export const findTagByName = (tags: Tag[], name: string) =>
+  tags.find(tag => tag.name.toLowerCase() === name.trim().toLowerCase());
+
+// Takes a deleted tag off every entry that carried it
+export const removeTagFromEntries = (entries: ResearchEntry[], tagId: string) =>
+  entries.map(entry => entry.tagIds.includes(tagId)
+    ? { ...entry, tagIds: entry.tagIds.filter(id => id !== tagId) }
+    : entry);
+
+export const countTagged = (entries: ResearchEntry[], tagId: string) =>
+  entries.filter(entry => entry.tagIds.includes(tagId)).length;
+
+export interface TagGroup {
+  // null for the entries that have no tags
+  tag: Tag | null;
+  entries: ResearchEntry[];
+}
+
+/**
+ * Groups entries under each tag in the tag list's order, then the untagged
+ * ones. An entry with several tags appears in each of their groups; empty
+ * groups are left out.
+ */
+export const groupEntriesByTag = (entries: ResearchEntry[], tags: Tag[]): TagGroup[] => {
+  const groups: TagGroup[] = tags.map(tag => ({ tag, entries: entries.filter(entry => entry.tagIds.includes(tag.id)) }));
+  groups.push({ tag: null, entries: entries.filter(entry => entry.tagIds.length === 0) });
+  return groups.filter(group => group.entries.length > 0);
+};
@@ -0,0 +1,205 @@
+import { getSourceTypeFields } from './bib-entry';
+import { parseNames } from './names';
+import type { BibEntry, Contributor, SourceType } from './types';
+
+// Fields read off a scanned title or copyright page, for the user to confirm
+export type CitationSuggestions = Partial<Omit<BibEntry, 'sourceType'>>;
+
+export interface TitlePageScan {
+  suggestions: CitationSuggestions;
+  // Found for reference only; entries have no ISBN field
+  isbn: string | null;
+}
+
+// Cities that appear on most title pages; others can be typed in
+const PUBLISHING_CITIES = [
+  'New York', 'London', 'Oxford', 'Cambridge', 'Chicago', 'Boston', 'Princeton', 'New Haven', 'Berkeley',
+  'Los Angeles', 'San Francisco', 'Toronto', 'Sydney', 'Melbourne', 'Paris', 'Berlin', 'Amsterdam',
+  'Thousand Oaks', 'Hoboken', 'Abingdon', 'Washington', 'Philadelphia', 'Baltimore', 'Stanford', 'Ithaca',
+  'Durham', 'Minneapolis', 'Edinburgh', 'Dublin', 'Singapore', 'New Delhi', 'Tokyo', 'Hong Kong', 'Cape Town',
+  'Ann Arbor', 'Evanston', 'Grand Rapids', 'Nashville', 'Austin', 'Seattle', 'Montreal', 'Vancouver'
+];
+
+const ORDINAL_WORDS: Record<string, string> = {
+  second: '2nd', third: '3rd', fourth: '4th', fifth: '5th', sixth: '6th', seventh: '7th', eighth: '8th',
+  ninth: '9th', tenth: '10th', revised: 'Rev.', expanded: 'Expanded'
+};
+
+const PUBLISHER_WORDS = /\b(Press|Publishing|Publishers|Publications|Books|Verlag|Sons|Inc\.?|Ltd\.?|Group|House|Routledge|Springer|Wiley|Penguin|Macmillan|Elsevier|Norton|Knopf)\b/;
+const COPYRIGHT = /(?:©|\(c\)|copyright)/i;
+const BYLINE = /^(?:written\s+)?by\s+(.+)$/i;
+const EDITED_BY = /^edited\s+(?:and\s+introduced\s+)?by\s+(.+)$/i;
+const EDITION = /\b(\d+)(?:st|nd|rd|th)\s+(?:revised\s+)?edition\b|\b(second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|revised|expanded)\s+edition\b/i;
+const ISBN = /ISBN(?:-1[03])?:?\s*((?:97[89][\s-]?)?(?:\d[\s-]?){9}[\dX])/i;
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/;
+const URL = /\bhttps?:\/\/[^\s"<>]+/i;
+const YEAR = /\b(1[5-9]\d\d|20\d\d)\b/g;
+const VOLUME = /\bVol(?:ume)?\.?\s*(\d+)/i;
+const ISSUE = /\b(?:No|Issue|Number)\.?\s*(\d+)/i;
+const PAGE_RANGE = /\bpp?\.\s*(\d+)\s*[-–—]\s*(\d+)/i;
+const JOURNAL_WORDS = /\b(Journal|Review|Quarterly|Studies|Bulletin|Annals|Proceedings|Letters|Transactions)\b/;
+const NEWSPAPER_WORDS = /\b(Times|Post|Herald|Tribune|Guardian|Gazette|News|Telegraph|Observer|Chronicle|Independent)\b/;
+
+// Copyright-page small print that is never the title
+const BOILERPLATE = /\b(all rights reserved|printed in|library of congress|british library|cataloging|cataloguing|permission|reproduced|first published|www\.)/i;
+
+const stripTrailingPunctuation = (value: string) => value.replace(/[\s.,;:]+$/, '');
+
+// Words kept lowercase inside a title, unless they start it
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'from', 'in', 'into', 'nor', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+const isAllCaps = (line: string) => /\p{Lu}/u.test(line) && !/\p{Ll}/u.test(line);
+
+// Title pages often print in capitals: "THE ORIGINS OF TOTALITARIANISM" → "The Origins of Totalitarianism"
+const fromAllCaps = (line: string) =>
+  isAllCaps(line)
+    ? line.toLowerCase().replace(/[\p{L}'’]+/gu, (word, offset: number) =>
+      offset > 0 && MINOR_WORDS.has(word) ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    : line;
+
+const isPublisherLine = (line: string) => PUBLISHER_WORDS.test(fromAllCaps(line));
+
+// Names as printed on a title page: "Jane Doe, John Smith and Ann Lee"
+const parseBylineNames = (value: string): Contributor[] =>
+  stripTrailingPunctuation(value)
+    .split(/\s*,\s*(?:and\s+)?|\s+and\s+|\s*&\s*/i)
+    .filter(Boolean)
+    .flatMap(name => parseNames(fromAllCaps(name)));
+
+// Two to four capitalized words and nothing else, like "Jane M. Doe"
+const looksLikeName = (line: string) =>
+  /^(?:[A-Z][\p{L}'’-]*\.?\s+){1,3}[A-Z][\p{L}'’-]+$/u.test(line) && !isPublisherLine(line);
+
+const findYear = (lines: string[]) => {
+  const yearsIn = (line: string) => Array.from(line.matchAll(YEAR), match => Number(match[1]));
+  // This edition's copyright year is the latest on the copyright line
+  const copyrightYears = lines.filter(line => COPYRIGHT.test(line)).flatMap(yearsIn);
+  if (copyrightYears.length > 0) return String(Math.max(...copyrightYears));
+  const published = lines.find(line => /\bpublished\b/i.test(line) && yearsIn(line).length > 0);
+  if (published) return String(Math.max(...yearsIn(published)));
+  const anyYears = lines.flatMap(yearsIn);
+  return anyYears.length > 0 ? String(Math.max(...anyYears)) : '';
+};
+
+const ordinalSuffix = (value: number) => {
+  if (value % 100 >= 11 && value % 100 <= 13) return 'th';
+  return ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[value % 10] ?? 'th';
+};
+
+const findEdition = (text: string) => {
+  const match = EDITION.exec(text);
+  if (!match) return '';
+  if (match[1]) return Number(match[1]) > 1 ? `${Number(match[1])}${ordinalSuffix(Number(match[1]))}` : '';
+  return ORDINAL_WORDS[match[2].toLowerCase()] ?? '';
+};
+
+// "Published by Harcourt, Inc., Orlando" gives the publisher and, after it, the city
+const findPublisher = (lines: string[]) => {
+  for (const line of lines) {
+    const publishedBy = /published\s+(?:in\s+[^,]+\s+)?by\s+(.+)$/i.exec(line);
+    if (publishedBy) {
+      const [publisher, city] = stripTrailingPunctuation(publishedBy[1])
+        .split(/\s*,\s*/)
+        .filter(part => !/^(?:Inc|Ltd|LLC|Co)\.?$/i.test(part));
+      return { publisher, city: city && /^\p{Lu}/u.test(city) ? city : '' };
+    }
+  }
+  const line = lines.find(candidate => isPublisherLine(candidate) && !COPYRIGHT.test(candidate));
+  return { publisher: line ? fromAllCaps(stripTrailingPunctuation(line.replace(/^.*?:\s*/, ''))) : '', city: '' };
+};
+
+const findCity = (text: string) => {
+  let best: { city: string; index: number } | null = null;
+  for (const city of PUBLISHING_CITIES) {
+    const index = text.search(new RegExp(`\\b${city}\\b`));
+    if (index >= 0 && (!best || index < best.index)) best = { city, index };
+  }
+  return best?.city ?? '';
+};
+
+/**
+ * Reads the OCR text of a title page, copyright page or article's first page
+ * into suggested fields. Only the fields the source type's form shows are
+ * suggested; for a chapter, the page's title is the book's.
+ */
+export const parseTitlePage = (text: string, sourceType: SourceType): TitlePageScan => {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const found: CitationSuggestions = {};
+
+  const isbn = ISBN.exec(text)?.[1].replace(/\s/g, '') ?? null;
+  const doi = DOI.exec(text.replace(/https?:\/\/(?:dx\.)?doi\.org\//gi, ''))?.[1];
+  if (doi) found.doi = stripTrailingPunctuation(doi);
+  const url = URL.exec(text)?.[0];
+  if (url && !/doi\.org/i.test(url)) found.url = stripTrailingPunctuation(url);
+
+  found.year = findYear(lines);
+  found.edition = findEdition(text);
+  const imprint = findPublisher(lines);
+  found.publisher = imprint.publisher;
+  found.city = findCity(text) || imprint.city;
+
+  // Authors from a byline, or a name-like line after the title unless the names are the editors'
+  const editorIndex = lines.findIndex(line => EDITED_BY.test(line));
+  if (editorIndex >= 0) found.editors = parseBylineNames(EDITED_BY.exec(lines[editorIndex])![1]);
+  const bylineIndex = lines.findIndex(line => BYLINE.test(line));
+  const nameIndex = bylineIndex >= 0 || editorIndex >= 0
+    ? bylineIndex
+    : lines.findIndex((line, index) => index > 0 && looksLikeName(line));
+  if (bylineIndex >= 0) {
+    found.authors = parseBylineNames(BYLINE.exec(lines[bylineIndex])![1]);
+  } else if (nameIndex >= 0) {
+    found.authors = parseBylineNames(lines[nameIndex]);
+  }
+
+  // The title is the first line that is none of the above, with a subtitle line after it if there is one
+  const isOther = (line: string) =>
+    COPYRIGHT.test(line) || ISBN.test(line) || EDITION.test(line) || EDITED_BY.test(line) || BYLINE.test(line) ||
+    isPublisherLine(line) || VOLUME.test(line) || BOILERPLATE.test(line) || /^\d+$/.test(line) ||
+    PUBLISHING_CITIES.some(city => line.startsWith(city));
+  const titleEnd = [nameIndex, editorIndex].filter(index => index >= 0);
+  const titleLines = lines
+    .slice(0, titleEnd.length > 0 ? Math.min(...titleEnd) : lines.length)
+    .filter(line => !isOther(line))
+    .slice(0, 3);
+  if (titleLines.length > 0) {
+    // A line in the same capitals, or one ending on "of" or "and", carries on the title; otherwise it's a subtitle
+    found.title = titleLines.reduce((title, line, index) => {
+      if (index === 0) return line;
+      const previous = titleLines[index - 1];
+      const carriesOn = isAllCaps(previous) === isAllCaps(line) && !/[:.]$/.test(previous) &&
+        (isAllCaps(line) || MINOR_WORDS.has(previous.split(' ').pop()!.toLowerCase()));
+      return carriesOn ? `${title} ${line}` : `${stripTrailingPunctuation(title)}: ${line}`;
+    }, '');
+    found.title = stripTrailingPunctuation(fromAllCaps(found.title));
+  }
+
+  // Journal and newspaper details, usually in the running head of the first page
+  const volumeLine = lines.find(line => VOLUME.test(line));
+  if (volumeLine) {
+    found.volume = VOLUME.exec(volumeLine)![1];
+    found.issue = ISSUE.exec(volumeLine)?.[1] ?? '';
+    const beforeVolume = stripTrailingPunctuation(volumeLine.slice(0, volumeLine.search(VOLUME)));
+    found.journalName = beforeVolume || (lines.find(line => JOURNAL_WORDS.test(line)) ?? '');
+  } else {
+    found.journalName = lines.find(line => JOURNAL_WORDS.test(line)) ?? '';
+  }
+  const pageRange = PAGE_RANGE.exec(text);
+  if (pageRange) found.pages = found.chapterPages = `${pageRange[1]}-${pageRange[2]}`;
+  found.newspaperName = lines.find(line => NEWSPAPER_WORDS.test(line)) ?? '';
+
+  if (sourceType === 'chapter') {
+    found.bookTitle = found.title;
+    delete found.title;
+  }
+
+  // Keep what the form for this source type has, and was actually found
+  const suggestions: CitationSuggestions = {};
+  getSourceTypeFields(sourceType).forEach(({ key }) => {
+    if (key === 'sourceType') return;
+    const value = found[key];
+    if (Array.isArray(value) ? value.length > 0 : value) {
+      Object.assign(suggestions, { [key]: value });
+    }
+  });
+  return { suggestions, isbn };
+};
@@ -0,0 +1,106 @@
+// Type definitions
+export type SourceType = 'book' | 'journal' | 'website' | 'newspaper' | 'chapter';
+export type CitationStyle = 'turabian' | 'apa' | 'mla' | 'chicago' | 'ieee';
+export type BibEntryKey = keyof BibEntry;
+// The plain text fields of a BibEntry, i.e. everything but the source type and name lists
+export type BibTextField = Exclude<BibEntryKey, 'sourceType' | 'authors' | 'editors'>;
+
+// One author or editor. Corporate authors ("World Health Organization")
+// keep their whole name in family and leave given empty.
+export interface Contributor {
+  given: string;
+  family: string;
+  corporate: boolean;
+}
+
+export interface BibEntry {
+  sourceType: SourceType;
+  authors: Contributor[];
+  title: string;
+  year: string;
+  doi: string;
+  url: string;
+  accessDate: string;
+  publisher: string;
+  city: string;
+  edition: string;
+  journalName: string;
+  volume: string;
+  issue: string;
+  pages: string;
+  websiteName: string;
+  organization: string;
+  newspaperName: string;
+  bookTitle: string;
+  editors: Contributor[];
+  chapterPages: string;
+}
+
+// A source in the project's library. Research entries cite it by id, so
+// correcting a source corrects every entry that uses it.
+export interface Source {
+  id: string;
+  bibliography: BibEntry;
+}
+
+export type TagColor = 'amber' | 'rose' | 'sky' | 'emerald' | 'violet' | 'stone';
+
+// A user-defined label such as "statistic" or "needs verification"
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+// Whether a note reproduces the source's words or restates them
+export type EntryKind = 'quote' | 'paraphrase' | 'summary';
+export type LocatorType = 'page' | 'pages' | 'paragraph' | 'timestamp';
+
+// Where in the source a note comes from, e.g. page "12" or timestamp "1:04:30"
+export interface Locator {
+  type: LocatorType;
+  value: string;
+}
+
+export interface ResearchEntry {
+  id: string;
+  pointId: string;
+  text: string;
+  sourceId: string;
+  tagIds: string[];
+  kind: EntryKind;
+  locator: Locator | null;
+}
+
+// Text read from an image or PDF, on its way to becoming an entry
+export type ExtractedNote = Pick<ResearchEntry, 'text' | 'locator'>;
+
+export interface OutlinePoint {
+  id: string;
+  text: string;
+  // 'main' for top-level points, 'sub' at any depth below
+  level: 'main' | 'sub';
+  children: OutlinePoint[];
+}
+
+// A project is one paper: its metadata lives in the project index, its
+// content under the project's own storage namespace.
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  modifiedAt: string;
+}
+
+export interface ProjectData {
+  thesis: string;
+  outlinePoints: OutlinePoint[];
+  sources: Source[];
+  tags: Tag[];
+  researchEntries: ResearchEntry[];
+  citationStyle: CitationStyle;
+}
+
+export type ProjectField = keyof ProjectData;
+
+export interface Project extends ProjectMeta, ProjectData {}
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { CornerDownRight, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SOURCE_TYPES, SOURCE_TYPE_LABELS } from '@/components/research-organizer/bib-entry';
+import { summarizeNames } from '@/components/research-organizer/names';
+import { flattenOutline } from '@/components/research-organizer/outline';
+import {
+  containerTitle,
+  highlightMatches,
+  searchResearch,
+  type SearchFilters
+} from '@/components/research-organizer/search';
+import type { OutlinePoint, ResearchEntry, Source, SourceType } from '@/components/research-organizer/types';
+
+interface ResearchSearchProps {
+  outlinePoints: OutlinePoint[];
+  sources: Source[];
+  researchEntries: ResearchEntry[];
+  onJumpToEntry: (entry: ResearchEntry) => void;
+}
+
+const EMPTY_FILTERS: SearchFilters = { query: '', sourceType: 'all', pointId: 'all' };
+
+const Highlighted: React.FC<{ text: string; query: string }> = ({ text, query }) => (
+  <>
+    {highlightMatches(text, query).map((segment, index) => segment.match
+      ? <mark key={index} className="bg-yellow-200 rounded-sm">{segment.text}</mark>
+      : <React.Fragment key={index}>{segment.text}</React.Fragment>)}
+  </>
+);
+
+const ResearchSearch: React.FC<ResearchSearchProps> = ({ outlinePoints, sources, researchEntries, onJumpToEntry }) => {
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const active = filters.query.trim() !== '' || filters.sourceType !== 'all' || filters.pointId !== 'all';
+
+  const flatPoints = flattenOutline(outlinePoints);
+  const pathFor = (pointId: string) => {
+    const flat = flatPoints.find(item => item.point.id === pointId);
+    return flat ? `${flat.path} ${flat.point.text}` : '';
+  };
+
+  const results = active ? searchResearch(researchEntries, sources, outlinePoints, filters) : [];
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-[#D4BFA0] space-y-3">
+      <div className="flex flex-wrap gap-2 items-center">
+        <div className="relative flex-grow min-w-48">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            type="search"
+            placeholder="Search notes, authors, titles, journals, years"
+            value={filters.query}
+            onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+            className="bg-white border-[#D4BFA0] pl-8"
+          />
+        </div>
+        <Select
+          value={filters.sourceType}
+          onValueChange={(value: SourceType | 'all') => setFilters({ ...filters, sourceType: value })}
+        >
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue placeholder="Source type" />
+          </SelectTrigger>
+          <SelectContent className="bg-white border shadow-lg rounded-md overflow-hidden z-50">
+            <SelectItem value="all">All source types</SelectItem>
+            {SOURCE_TYPES.map(type => (
+              <SelectItem key={type} value={type}>{SOURCE_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.pointId} onValueChange={(value) => setFilters({ ...filters, pointId: value })}>
+          <SelectTrigger className="w-48 bg-white">
+            <SelectValue placeholder="Outline point" />
+          </SelectTrigger>
+          <SelectContent className="bg-white border shadow-lg rounded-md overflow-hidden z-50">
+            <SelectItem value="all">All outline points</SelectItem>
+            {flatPoints.map(({ point, depth, label }) => (
+              <SelectItem key={point.id} value={point.id}>
+                {'→ '.repeat(depth)}{label} {point.text}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {active && (
+          <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_FILTERS)} title="Clear search">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {active && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {results.length} {results.length === 1 ? 'entry' : 'entries'} found
+          </p>
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {results.map(({ entry, bibliography }) => (
+              <div key={entry.id} className="p-3 rounded border border-gray-200 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-xs text-gray-500 break-words">{pathFor(entry.pointId)}</p>
+                  <Button variant="ghost" size="sm" onClick={() => onJumpToEntry(entry)} className="shrink-0">
+                    <CornerDownRight className="mr-1 h-4 w-4" />
+                    Go to entry
+                  </Button>
+                </div>
+                <p className="whitespace-normal break-words">
+                  <Highlighted text={entry.text} query={filters.query} />
+                </p>
+                {bibliography && (
+                  <p className="text-sm text-gray-600 break-words">
+                    <Highlighted
+                      text={[
+                        summarizeNames(bibliography.authors),
+                        bibliography.year,
+                        bibliography.title,
+                        containerTitle(bibliography)
+                      ].filter(Boolean).join(' · ')}
+                      query={filters.query}
+                    />
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResearchSearch;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Check, Pencil, PlusCircle, Tags, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { TagChip } from '@/components/tag-picker';
+import { TAG_COLORS, TAG_COLOR_CLASSES, countTagged, findTagByName, nextTagColor } from '@/components/research-organizer/tags';
+import type { ResearchEntry, Tag, TagColor } from '@/components/research-organizer/types';
+
+interface TagEditorProps {
+  tags: Tag[];
+  researchEntries: ResearchEntry[];
+  onCreate: (name: string, color: TagColor) => void;
+  onUpdate: (tag: Tag) => void;
+  onDelete: (tagId: string) => void;
+}
+
+// The tag being created (id '') or edited, with its unsaved name and color
+type TagDraft = { id: string; name: string; color: TagColor };
+
+const ColorSwatches: React.FC<{ value: TagColor; onChange: (color: TagColor) => void }> = ({ value, onChange }) => (
+  <div className="flex gap-1" role="radiogroup" aria-label="Tag color">
+    {TAG_COLORS.map(color => (
+      <button
+        key={color}
+        type="button"
+        role="radio"
+        aria-checked={color === value}
+        aria-label={color}
+        title={color}
+        onClick={() => onChange(color)}
+        className={`h-5 w-5 rounded-full border ${TAG_COLOR_CLASSES[color]} ${color === value ? 'ring-2 ring-[#8B593E]' : ''}`}
+      />
+    ))}
+  </div>
+);
+
+const TagEditor: React.FC<TagEditorProps> = ({ tags, researchEntries, onCreate, onUpdate, onDelete }) => {
+  const [draft, setDraft] = useState<TagDraft | null>(null);
+
+  const name = draft?.name.trim() ?? '';
+  const duplicate = draft ? findTagByName(tags, name) : undefined;
+  const nameError = duplicate && duplicate.id !== draft?.id ? `There is already a tag called "${duplicate.name}".` : '';
+
+  const submitDraft = () => {
+    if (!draft || !name || nameError) return;
+    if (draft.id) onUpdate({ ...draft, name });
+    else onCreate(name, draft.color);
+    setDraft(null);
+  };
+
+  const handleDelete = (tag: Tag) => {
+    const count = countTagged(researchEntries, tag.id);
+    if (count === 0 || window.confirm(`Remove "${tag.name}" from ${count} ${count === 1 ? 'entry' : 'entries'} and delete it?`)) {
+      onDelete(tag.id);
+    }
+  };
+
+  const renderDraft = (current: TagDraft) => (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          autoFocus
+          placeholder="Tag name, e.g. statistic"
+          value={current.name}
+          onChange={(e) => setDraft({ ...current, name: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitDraft();
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          className="bg-white border-[#D4BFA0] w-56"
+        />
+        <ColorSwatches value={current.color} onChange={(color) => setDraft({ ...current, color })} />
+        <Button variant="ghost" size="sm" onClick={submitDraft} disabled={!name || !!nameError} title="Save">
+          <Check className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setDraft(null)} title="Cancel">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {nameError && <p className="text-sm text-red-600">{nameError}</p>}
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-[#D4BFA0] space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Tags className="h-4 w-4 text-[#8B593E]" />
+          Tags
+        </h3>
+        {!draft && (
+          <Button variant="ghost" size="sm" onClick={() => setDraft({ id: '', name: '', color: nextTagColor(tags) })}>
+            <PlusCircle className="mr-1 h-4 w-4" />
+            New Tag
+          </Button>
+        )}
+      </div>
+
+      {draft && !draft.id && renderDraft(draft)}
+
+      {tags.length === 0 && !draft && (
+        <p className="text-sm text-gray-500">
+          No tags yet. Tags such as &quot;statistic&quot; or &quot;needs verification&quot; label notes across outline points.
+        </p>
+      )}
+
+      {tags.map(tag => draft?.id === tag.id ? (
+        <React.Fragment key={tag.id}>{renderDraft(draft)}</React.Fragment>
+      ) : (
+        <div key={tag.id} className="flex items-center gap-2">
+          <TagChip tag={tag} />
+          <span className="text-xs text-gray-500 flex-grow">
+            {countTagged(researchEntries, tag.id)} tagged
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setDraft({ ...tag })} title="Edit tag" className="p-1">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleDelete(tag)}
+            title="Delete tag"
+            className="p-1 text-red-500 hover:text-red-700"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { TAG_COLOR_CLASSES } from '@/components/research-organizer/tags';
+import type { Tag } from '@/components/research-organizer/types';
+
+interface TagPickerProps {
+  tags: Tag[];
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+export const TagChip: React.FC<{ tag: Tag }> = ({ tag }) => (
+  <span className={`inline-block px-2 py-0.5 rounded-full border text-xs ${TAG_COLOR_CLASSES[tag.color]}`}>
+    {tag.name}
+  </span>
+);
+
+// Toggles tags on an entry. Unselected tags are shown faded.
+const TagPicker: React.FC<TagPickerProps> = ({ tags, selectedIds, onChange }) => {
+  if (tags.length === 0) {
+    return <p className="text-sm text-gray-500">Create tags in the tag editor to label your notes.</p>;
+  }
+
+  const toggle = (tagId: string) => {
+    onChange(selectedIds.includes(tagId)
+      ? selectedIds.filter(id => id !== tagId)
+      : [...selectedIds, tagId]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2" role="group" aria-label="Tags">
+      {tags.map(tag => {
+        const selected = selectedIds.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            onClick={() => toggle(tag.id)}
+            aria-pressed={selected}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs ${TAG_COLOR_CLASSES[tag.color]} ${selected ? '' : 'opacity-40 hover:opacity-70'}`}
+          >
+            {selected && <Check className="h-3 w-3" />}
+            {tag.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,228 @@
+// Pixel operations behind the OCR preprocessing step. They work on plain RGBA
+// buffers, so the canvas code in image.ts only has to move pixels in and out.
+
+export interface PixelImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// A point as fractions of the image's width and height
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Page corners in the order top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface ImageAdjustments {
+  // Quarter turns clockwise, 0 to 3
+  quarterTurns: number;
+  // Fine rotation in degrees, clockwise, on top of the quarter turns
+  angle: number;
+  // Where the page's corners are after rotating, or null to keep the whole image
+  corners: Quad | null;
+  grayscale: boolean;
+  // Pixels brighter than this (0 to 255) turn white and the rest black; null leaves them alone
+  threshold: number | null;
+  // -100 (flat gray) to 100 (harshest)
+  contrast: number;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  quarterTurns: 0,
+  angle: 0,
+  corners: null,
+  grayscale: false,
+  threshold: null,
+  contrast: 0
+};
+
+export const MAX_FINE_ANGLE = 15;
+
+// Corners just inside the image's edges, for dragging to the page's corners
+export const defaultCorners = (): Quad => [
+  { x: 0.05, y: 0.05 },
+  { x: 0.95, y: 0.05 },
+  { x: 0.95, y: 0.95 },
+  { x: 0.05, y: 0.95 }
+];
+
+const luminance = (data: Uint8ClampedArray, offset: number) =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+const luminances = ({ data, width, height }: PixelImage) => {
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = luminance(data, i * 4);
+  }
+  return values;
+};
+
+/**
+ * The brightness that best splits the image into dark pixels (this bright
+ * or darker) and light ones, by Otsu's method; a good starting threshold.
+ */
+export const otsuThreshold = (image: PixelImage) => {
+  const histogram = new Array<number>(256).fill(0);
+  const values = luminances(image);
+  values.forEach(value => histogram[Math.round(value)]++);
+
+  const total = values.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  let best = { threshold: 128, variance: -1 };
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+    backgroundSum += level * histogram[level];
+    const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+    if (variance > best.variance) best = { threshold: level, variance };
+  }
+  return best.threshold;
+};
+
+// Grayscale, contrast and threshold, in that order, changing the pixels in place
+export const adjustTone = (image: PixelImage, { grayscale, threshold, contrast }: ImageAdjustments) => {
+  const { data } = image;
+  // The usual contrast curve, pivoting on middle gray
+  const level = contrast * 2.55;
+  const factor = (259 * (level + 255)) / (255 * (259 - level));
+  const stretch = (value: number) => factor * (value - 128) + 128;
+
+  for (let offset = 0; offset < data.length; offset += 4) {
+    if (grayscale || threshold !== null) {
+      const gray = stretch(luminance(data, offset));
+      const value = threshold === null ? gray : gray > threshold ? 255 : 0;
+      data[offset] = data[offset + 1] = data[offset + 2] = value;
+    } else if (contrast !== 0) {
+      data[offset] = stretch(data[offset]);
+      data[offset + 1] = stretch(data[offset + 1]);
+      data[offset + 2] = stretch(data[offset + 2]);
+    }
+  }
+};
+
+// Dark pixels sampled for deskewing; more only slow it down
+const MAX_SKEW_SAMPLES = 20000;
+
+/**
+ * Finds how far the lines of text are tilted and returns the clockwise
+ * rotation in degrees that levels them. Each candidate angle projects the
+ * dark pixels onto rows; the angle at which the text lines stack into the
+ * sharpest rows wins.
+ */
+export const estimateSkew = (image: PixelImage, maxAngle = MAX_FINE_ANGLE, step = 0.2) => {
+  const { width, height } = image;
+  const values = luminances(image);
+  const threshold = otsuThreshold(image);
+
+  const darkPixels: number[] = [];
+  values.forEach((value, index) => {
+    if (value <= threshold) darkPixels.push(index);
+  });
+  if (darkPixels.length === 0) return 0;
+  const stride = Math.max(1, Math.floor(darkPixels.length / MAX_SKEW_SAMPLES));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < darkPixels.length; i += stride) {
+    xs.push(darkPixels[i] % width);
+    ys.push(Math.floor(darkPixels[i] / width));
+  }
+
+  // Rows can land anywhere from -width to width + height once tilted
+  const rows = new Float64Array(width + height * 2 + 2);
+  let best = { angle: 0, score: -1 };
+  for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += step) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    rows.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      rows[Math.round(ys[i] * cos - xs[i] * sin) + width]++;
+    }
+    let score = 0;
+    for (let row = 0; row < rows.length; row++) score += rows[row] * rows[row];
+    if (score > best.score) best = { angle, score };
+  }
+  // The text slopes by best.angle, so turning it back by as much levels it
+  const correction = -Math.round(best.angle * 10) / 10;
+  return correction === 0 ? 0 : correction;
+};
+
+/**
+ * The projective transform taking each `from` point to the matching `to`
+ * point, as the eight coefficients of a 3x3 matrix whose last entry is 1.
+ */
+export const solveHomography = (from: Point[], to: Point[]) => {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-12) throw new Error('The corners do not make a quadrilateral');
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const ratio = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) rows[row][k] -= ratio * rows[column][k];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Cuts the quadrilateral out of the image and straightens it into a
+ * rectangle as wide and tall as its longer edges, as if the page had been
+ * photographed straight on.
+ */
+export const warpPerspective = (image: PixelImage, corners: Quad): PixelImage => {
+  const { data, width, height } = image;
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners.map(({ x, y }) => ({ x: x * width, y: y * height }));
+  const outWidth = Math.max(1, Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight))));
+  const outHeight = Math.max(1, Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight))));
+
+  // Maps each output pixel back to where it comes from in the source
+  const [a, b, c, d, e, f, g, h] = solveHomography(
+    [{ x: 0, y: 0 }, { x: outWidth, y: 0 }, { x: outWidth, y: outHeight }, { x: 0, y: outHeight }],
+    [topLeft, topRight, bottomRight, bottomLeft]
+  );
+
+  const out = new Uint8ClampedArray(outWidth * outHeight * 4);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const denominator = g * x + h * y + 1;
+      const sourceX = Math.min(width - 1, Math.max(0, (a * x + b * y + c) / denominator));
+      const sourceY = Math.min(height - 1, Math.max(0, (d * x + e * y + f) / denominator));
+      // Bilinear sampling between the four nearest source pixels
+      const x0 = Math.floor(sourceX);
+      const y0 = Math.floor(sourceY);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const dx = sourceX - x0;
+      const dy = sourceY - y0;
+      const target = (y * outWidth + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = data[(y0 * width + x0) * 4 + channel] * (1 - dx) + data[(y0 * width + x1) * 4 + channel] * dx;
+        const bottom = data[(y1 * width + x0) * 4 + channel] * (1 - dx) + data[(y1 * width + x1) * 4 + channel] * dx;
+        out[target + channel] = top * (1 - dy) + bottom * dy;
+      }
+    }
+  }
+  return { data: out, width: outWidth, height: outHeight };
+};
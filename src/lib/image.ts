@@ -0,0 +1,106 @@
+import type { Crop } from 'react-image-crop';
+import { adjustTone, estimateSkew, warpPerspective, type ImageAdjustments, type PixelImage } from '@/lib/image-processing';
+
+/**
+ * Draws the cropped part of a displayed image at its full resolution and
+ * returns it as a JPEG data URL. The crop is in displayed pixels.
+ */
+export const cropImage = (image: HTMLImageElement, crop: Crop) => {
+  const canvas = document.createElement('canvas');
+  const scaleX = image.naturalWidth / image.width;
+  const scaleY = image.naturalHeight / image.height;
+
+  canvas.width = crop.width * scaleX;
+  canvas.height = crop.height * scaleY;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(
+    image,
+    crop.x * scaleX,
+    crop.y * scaleY,
+    crop.width * scaleX,
+    crop.height * scaleY,
+    0,
+    0,
+    crop.width * scaleX,
+    crop.height * scaleY
+  );
+
+  return canvas.toDataURL('image/jpeg');
+};
+
+export const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be loaded'));
+    image.src = src;
+  });
+
+// Draws the image turned clockwise by `degrees` and shrunk by `scale`, onto
+// white so the corners the turn uncovers don't read as ink
+const drawRotated = (image: HTMLImageElement, degrees: number, scale: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * cos + height * sin);
+  canvas.height = Math.round(width * sin + height * cos);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+  return { canvas, ctx };
+};
+
+const scaleFor = (image: HTMLImageElement, maxSize?: number) =>
+  maxSize ? Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight)) : 1;
+
+/**
+ * Applies the adjustments in order: rotation, perspective, then tone. Pass
+ * `maxSize` for a quick preview at that many pixels along the longer side.
+ */
+export const preprocessImage = (image: HTMLImageElement, adjustments: ImageAdjustments, maxSize?: number) => {
+  const { canvas, ctx } = drawRotated(
+    image,
+    adjustments.quarterTurns * 90 + adjustments.angle,
+    scaleFor(image, maxSize)
+  );
+  let pixels: PixelImage = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  if (adjustments.corners) {
+    pixels = warpPerspective(pixels, adjustments.corners);
+  }
+  adjustTone(pixels, adjustments);
+
+  const output = document.createElement('canvas');
+  output.width = pixels.width;
+  output.height = pixels.height;
+  output.getContext('2d')?.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return output;
+};
+
+// Deskewing looks at a small copy; text lines show up fine at this size
+const SKEW_SAMPLE_SIZE = 800;
+
+// The fine angle that levels the text once the image has had its quarter turns
+export const detectSkew = (image: HTMLImageElement, quarterTurns: number) => {
+  const { canvas, ctx } = drawRotated(image, quarterTurns * 90, scaleFor(image, SKEW_SAMPLE_SIZE));
+  return estimateSkew(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
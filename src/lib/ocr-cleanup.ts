@@ -0,0 +1,68 @@
+import type { OcrWord } from '@/lib/ocr';
+
+// Words the engine was less sure of than this are highlighted for checking
+export const LOW_CONFIDENCE = 0.8;
+
+// How far past the last word found the next one may be, so a short word isn't matched pages later
+const WORD_SEARCH_WINDOW = 80;
+
+// A word split across lines: the hyphen, the line break and a lowercase continuation
+const HYPHENATED_BREAK = /(\p{L})-[ \t]*\n[ \t]*(\p{Ll})/gu;
+
+// A line break with text on both sides, as opposed to the blank line between paragraphs
+const LINE_BREAK = /([^\n])[ \t]*\n[ \t]*(?=[^\n])/g;
+
+const normalizeNewlines = (text: string) => text.replace(/\r\n?/g, '\n');
+
+/**
+ * "exam-\nple" becomes "example". Only lowercase continuations are joined,
+ * so "Smith-\nJones" keeps its hyphen; a compound such as "self-\nevident"
+ * loses it and needs fixing by hand.
+ */
+export const joinHyphenatedWords = (text: string) => normalizeNewlines(text).replace(HYPHENATED_BREAK, '$1$2');
+
+// Single line breaks inside a paragraph become spaces, or nothing after a
+// hyphen; blank lines between paragraphs stay
+export const joinBrokenLines = (text: string) =>
+  normalizeNewlines(text).replace(LINE_BREAK, (_, before: string) => (before === '-' ? before : `${before} `));
+
+export const countHyphenatedBreaks = (text: string) => normalizeNewlines(text).match(HYPHENATED_BREAK)?.length ?? 0;
+
+export const countLineBreaks = (text: string) => normalizeNewlines(text).match(LINE_BREAK)?.length ?? 0;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where the unsure words are in the text. Each word is looked for shortly
+ * after the previous one found, in reading order, so edits only lose the
+ * highlights of the words they changed.
+ */
+export const lowConfidenceRanges = (text: string, words: OcrWord[], limit = LOW_CONFIDENCE): TextRange[] => {
+  const ranges: TextRange[] = [];
+  let cursor = 0;
+  for (const word of words) {
+    const wordText = word.text.trim();
+    if (!wordText) continue;
+    const start = text.indexOf(wordText, cursor);
+    if (start < 0 || start > cursor + WORD_SEARCH_WINDOW) continue;
+    cursor = start + wordText.length;
+    if (word.confidence < limit) ranges.push({ start, end: cursor });
+  }
+  return ranges;
+};
+
+// The text cut into pieces, each marked as inside a range or not
+export const splitByRanges = (text: string, ranges: TextRange[]) => {
+  const pieces: Array<{ text: string; marked: boolean }> = [];
+  let position = 0;
+  ranges.forEach(({ start, end }) => {
+    if (start > position) pieces.push({ text: text.slice(position, start), marked: false });
+    pieces.push({ text: text.slice(start, end), marked: true });
+    position = end;
+  });
+  if (position < text.length) pieces.push({ text: text.slice(position), marked: false });
+  return pieces;
+};
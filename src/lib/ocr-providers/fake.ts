@@ -0,0 +1,39 @@
+import type { OcrBlock, OcrWord } from '@/lib/ocr';
+import type { OcrProvider } from '.';
+
+// Two columns and a footnote, enough to exercise block picking
+const FAKE_BLOCKS: Array<Omit<OcrBlock, 'paragraphs'>> = [
+  { id: '0-0', page: 0, text: 'Left column text.', box: { x: 0.05, y: 0.05, width: 0.4, height: 0.7 } },
+  { id: '0-1', page: 0, text: 'Right column text.', box: { x: 0.55, y: 0.05, width: 0.4, height: 0.7 } },
+  { id: '0-2', page: 0, text: '1. A footnote.', box: { x: 0.05, y: 0.85, width: 0.9, height: 0.1 } }
+];
+
+// Long words come back unsure, so the review panel has something to highlight
+const fakeWords = (text: string): OcrWord[] =>
+  text.split(/\s+/).filter(Boolean).map((word, index) => ({
+    text: word,
+    confidence: word.length > 9 ? 0.55 : 0.98,
+    box: { x: (index % 8) / 8, y: Math.floor(index / 8) / 10, width: 0.12, height: 0.06 }
+  }));
+
+/**
+ * Recognizes nothing: returns fixed text that mentions the image's size, so
+ * the same image always gives the same result. For tests and for working on
+ * the interface without an OCR engine. OCR_FAKE_TEXT replaces the plain-text
+ * result.
+ */
+export const createFakeProvider = (): OcrProvider => ({
+  name: 'fake',
+  recognize: async (image, mode) => {
+    if (mode === 'document') {
+      const blocks = FAKE_BLOCKS.map(block => ({
+        ...block,
+        paragraphs: [{ text: block.text, box: block.box, confidence: 1 }]
+      }));
+      const text = blocks.map(block => block.text).join('\n');
+      return { text, blocks, words: fakeWords(text) };
+    }
+    const text = process.env.OCR_FAKE_TEXT ?? `Sample text recognized from a ${image.length}-byte image.`;
+    return { text, words: fakeWords(text) };
+  }
+});
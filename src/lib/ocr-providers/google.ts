@@ -0,0 +1,115 @@
+import vision, { type protos } from '@google-cloud/vision';
+import type { BoundingBox, OcrBlock, OcrWord } from '@/lib/ocr';
+import type { OcrProvider } from '.';
+
+type TextAnnotation = protos.google.cloud.vision.v1.ITextAnnotation;
+type BoundingPoly = protos.google.cloud.vision.v1.IBoundingPoly;
+type Word = protos.google.cloud.vision.v1.IWord;
+
+// Used when GOOGLE_APPLICATION_CREDENTIALS doesn't point at a key file of its own
+const DEFAULT_KEY_FILE = 'config/google/vision-credentials.json';
+
+// Vision leaves out coordinates that are zero, so missing ones count as 0
+const toBoundingBox = (poly: BoundingPoly | null | undefined, width: number, height: number): BoundingBox => {
+  const vertices = poly?.vertices ?? [];
+  if (vertices.length === 0 || !width || !height) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const xs = vertices.map(vertex => vertex.x ?? 0);
+  const ys = vertices.map(vertex => vertex.y ?? 0);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return {
+    x: left / width,
+    y: top / height,
+    width: (Math.max(...xs) - left) / width,
+    height: (Math.max(...ys) - top) / height
+  };
+};
+
+// What follows a symbol, from the break Vision detected after it. The client
+// reports break types by name, but the enum's numbers are accepted too.
+const BREAKS: Record<string, string> = {
+  SPACE: ' ',
+  SURE_SPACE: ' ',
+  EOL_SURE_SPACE: '\n',
+  HYPHEN: '-\n',
+  LINE_BREAK: '\n',
+  1: ' ',
+  2: ' ',
+  3: '\n',
+  4: '-\n',
+  5: '\n'
+};
+
+const wordText = (word: Word) =>
+  (word.symbols ?? [])
+    .map(symbol => {
+      const breakType = symbol.property?.detectedBreak?.type;
+      return `${symbol.text ?? ''}${breakType ? BREAKS[String(breakType)] ?? '' : ''}`;
+    })
+    .join('');
+
+/**
+ * Turns a documentTextDetection result into blocks of paragraphs with
+ * bounding boxes, in the order Vision reads them.
+ */
+export const documentBlocks = (annotation: TextAnnotation | null | undefined): OcrBlock[] =>
+  (annotation?.pages ?? []).flatMap((page, pageIndex) => {
+    const width = page.width ?? 0;
+    const height = page.height ?? 0;
+    return (page.blocks ?? []).map((block, blockIndex) => {
+      const paragraphs = (block.paragraphs ?? []).map(paragraph => ({
+        text: (paragraph.words ?? []).map(wordText).join('').trim(),
+        box: toBoundingBox(paragraph.boundingBox, width, height),
+        confidence: paragraph.confidence ?? 0
+      }));
+      return {
+        id: `${pageIndex}-${blockIndex}`,
+        page: pageIndex,
+        text: paragraphs.map(paragraph => paragraph.text).filter(Boolean).join('\n'),
+        box: toBoundingBox(block.boundingBox, width, height),
+        paragraphs
+      };
+    });
+  });
+
+// Every word with its confidence, in reading order
+export const annotationWords = (annotation: TextAnnotation | null | undefined): OcrWord[] =>
+  (annotation?.pages ?? []).flatMap(page =>
+    (page.blocks ?? []).flatMap(block =>
+      (block.paragraphs ?? []).flatMap(paragraph =>
+        (paragraph.words ?? []).map(word => ({
+          text: (word.symbols ?? []).map(symbol => symbol.text ?? '').join(''),
+          confidence: word.confidence ?? 0,
+          box: toBoundingBox(word.boundingBox, page.width ?? 0, page.height ?? 0)
+        }))
+      )
+    )
+  );
+
+export const createGoogleProvider = (): OcrProvider => {
+  const client = new vision.ImageAnnotatorClient(
+    process.env.GOOGLE_APPLICATION_CREDENTIALS ? {} : { keyFilename: DEFAULT_KEY_FILE }
+  );
+
+  return {
+    name: 'google',
+    recognize: async (image, mode) => {
+      // Document mode reads the page layout too, so columns, headers and footnotes come back as separate blocks
+      if (mode === 'document') {
+        const [result] = await client.documentTextDetection({ image: { content: image } });
+        const annotation = result.fullTextAnnotation;
+        return { text: annotation?.text ?? '', blocks: documentBlocks(annotation), words: annotationWords(annotation) };
+      }
+
+      const [result] = await client.textDetection({ image: { content: image } });
+      // Plain text detection may leave every confidence at 0, which says nothing about the words
+      const words = annotationWords(result.fullTextAnnotation);
+      return {
+        // The first annotation contains the entire text
+        text: result.textAnnotations?.[0]?.description ?? '',
+        ...(words.some(word => word.confidence > 0) ? { words } : {})
+      };
+    }
+  };
+};
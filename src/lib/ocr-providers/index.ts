@@ -0,0 +1,46 @@
+import type { OcrBlock, OcrMode, OcrWord } from '@/lib/ocr';
+import { createFakeProvider } from './fake';
+import { createGoogleProvider } from './google';
+import { createTesseractProvider } from './tesseract';
+
+export interface OcrResult {
+  text: string;
+  // Only in document mode
+  blocks?: OcrBlock[];
+  words?: OcrWord[];
+}
+
+// A text recognition engine behind /api/vision. Implementations run on the server only.
+export interface OcrProvider {
+  name: OcrProviderName;
+  recognize(image: Buffer, mode: OcrMode): Promise<OcrResult>;
+}
+
+export type OcrProviderName = 'google' | 'tesseract' | 'fake';
+
+const PROVIDERS: Record<OcrProviderName, () => OcrProvider> = {
+  google: createGoogleProvider,
+  tesseract: createTesseractProvider,
+  fake: createFakeProvider
+};
+
+export class OcrConfigurationError extends Error {}
+
+let provider: OcrProvider | null = null;
+
+/**
+ * The provider named by the OCR_PROVIDER environment variable, Google Vision
+ * when it isn't set. Created once and reused, since clients and workers are
+ * costly to start.
+ */
+export const getOcrProvider = (): OcrProvider => {
+  const name = (process.env.OCR_PROVIDER || 'google').trim().toLowerCase();
+  if (provider?.name === name) return provider;
+  if (!(name in PROVIDERS)) {
+    throw new OcrConfigurationError(
+      `Unknown OCR_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}.`
+    );
+  }
+  provider = PROVIDERS[name as OcrProviderName]();
+  return provider;
+};
@@ -0,0 +1,98 @@
+import { createWorker, type Bbox, type Worker } from 'tesseract.js';
+import type { BoundingBox, OcrBlock, OcrWord } from '@/lib/ocr';
+import type { OcrProvider } from '.';
+
+// LSTM_ONLY, the engine tesseract.js ships trained data for
+const OEM_LSTM = 1;
+
+/**
+ * Reads the pixel size from a PNG, GIF or JPEG header, or returns null for
+ * anything else. Tesseract reports boxes in pixels; the interface wants them
+ * as fractions of the image.
+ */
+const imageSize = (image: Buffer): { width: number; height: number } | null => {
+  if (image.length >= 24 && image.readUInt32BE(0) === 0x89504e47) {
+    return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) };
+  }
+  if (image.length >= 10 && image.toString('ascii', 0, 3) === 'GIF') {
+    return { width: image.readUInt16LE(6), height: image.readUInt16LE(8) };
+  }
+  if (image.length >= 4 && image.readUInt16BE(0) === 0xffd8) {
+    // Walk the JPEG segments to the start-of-frame marker, which holds the size
+    let offset = 2;
+    while (offset + 9 < image.length && image[offset] === 0xff) {
+      const marker = image[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return { width: image.readUInt16BE(offset + 7), height: image.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + image.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+};
+
+const toBoundingBox = ({ x0, y0, x1, y1 }: Bbox, width: number, height: number): BoundingBox =>
+  width && height
+    ? { x: x0 / width, y: y0 / height, width: (x1 - x0) / width, height: (y1 - y0) / height }
+    : { x: 0, y: 0, width: 0, height: 0 };
+
+/**
+ * Tesseract running locally through tesseract.js, so text extraction works
+ * without network or credentials once its trained data is on disk. Set
+ * TESSERACT_LANG_PATH to a folder holding eng.traineddata (otherwise the data
+ * is downloaded once and cached) and OCR_LANGUAGES to e.g. "eng+deu".
+ */
+export const createTesseractProvider = (): OcrProvider => {
+  let worker: Promise<Worker> | null = null;
+  const getWorker = () => {
+    worker ??= createWorker((process.env.OCR_LANGUAGES || 'eng').split('+'), OEM_LSTM, {
+      ...(process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH } : {}),
+      ...(process.env.TESSERACT_CACHE_PATH ? { cachePath: process.env.TESSERACT_CACHE_PATH } : {})
+    }).catch(error => {
+      // Let the next request try again, e.g. once the trained data is in place
+      worker = null;
+      throw error;
+    });
+    return worker;
+  };
+
+  return {
+    name: 'tesseract',
+    recognize: async (image, mode) => {
+      // Blocks are needed in either mode, since the words and their confidences are inside them
+      const { data } = await (await getWorker()).recognize(image, {}, { text: true, blocks: true });
+
+      // Without a size from the header, the blocks' own extent stands in for the page
+      const size = imageSize(image) ?? {
+        width: Math.max(0, ...(data.blocks ?? []).map(block => block.bbox.x1)),
+        height: Math.max(0, ...(data.blocks ?? []).map(block => block.bbox.y1))
+      };
+      const words: OcrWord[] = (data.blocks ?? []).flatMap(block =>
+        block.paragraphs.flatMap(paragraph =>
+          paragraph.lines.flatMap(line =>
+            line.words.map(word => ({
+              text: word.text,
+              confidence: word.confidence / 100,
+              box: toBoundingBox(word.bbox, size.width, size.height)
+            }))
+          )
+        )
+      );
+      if (mode !== 'document') return { text: data.text, words };
+
+      const blocks: OcrBlock[] = (data.blocks ?? []).map((block, index) => ({
+        id: `0-${index}`,
+        page: 0,
+        text: block.text.trim(),
+        box: toBoundingBox(block.bbox, size.width, size.height),
+        paragraphs: block.paragraphs.map(paragraph => ({
+          text: paragraph.text.trim(),
+          box: toBoundingBox(paragraph.bbox, size.width, size.height),
+          confidence: paragraph.confidence / 100
+        }))
+      }));
+      return { text: data.text, blocks, words };
+    }
+  };
+};
@@ -0,0 +1,64 @@
+import { readFileAsDataUrl } from '@/lib/image';
+
+// The batch extraction queue: images waiting to be read, in the order their text is wanted
+
+export type OcrQueueStatus = 'pending' | 'processing' | 'done' | 'error';
+
+export interface OcrQueueItem {
+  id: string;
+  name: string;
+  // The image as a data URL, cropped if it has been
+  image: string;
+  status: OcrQueueStatus;
+  text: string;
+  error: string | null;
+}
+
+export const createQueueItem = (name: string, image: string): OcrQueueItem => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  image,
+  status: 'pending',
+  text: '',
+  error: null
+});
+
+// Files in natural name order, so "page 2" comes before "page 10"
+export const sortFilesByName = (files: File[]) =>
+  [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+// Reads picked files into queue items, in natural name order
+export const createQueueItems = async (files: File[]) =>
+  Promise.all(sortFilesByName(files).map(async file => createQueueItem(file.name, await readFileAsDataUrl(file))));
+
+export const updateQueueItem = (items: OcrQueueItem[], itemId: string, changes: Partial<OcrQueueItem>) =>
+  items.map(item => (item.id === itemId ? { ...item, ...changes } : item));
+
+// Moves an item one place, leaving the queue alone at either end
+export const moveQueueItem = (items: OcrQueueItem[], itemId: string, direction: 'up' | 'down') => {
+  const from = items.findIndex(item => item.id === itemId);
+  const to = direction === 'up' ? from - 1 : from + 1;
+  if (from < 0 || to < 0 || to >= items.length) return items;
+  const moved = [...items];
+  [moved[from], moved[to]] = [moved[to], moved[from]];
+  return moved;
+};
+
+// Splits ids into groups of at most `size`, one group per request
+export const chunkIds = <T>(ids: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < ids.length; i += size) {
+    chunks.push(ids.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export const queueProgress = (items: OcrQueueItem[]) => ({
+  done: items.filter(item => item.status === 'done').length,
+  failed: items.filter(item => item.status === 'error').length,
+  total: items.length
+});
+
+// The texts read so far, in queue order; images that came back empty are skipped
+export const queueResults = (items: OcrQueueItem[]) =>
+  items.filter(item => item.status === 'done' && item.text.trim()).map(item => item.text.trim());
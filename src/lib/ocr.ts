@@ -0,0 +1,106 @@
+// Text recognition results shared by /api/vision and the components that call it
+
+// 'text' reads an image as one string; 'document' also returns its layout
+export type OcrMode = 'text' | 'document';
+
+// A rectangle as fractions of the page's width and height, so it can be drawn at any size
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrParagraph {
+  text: string;
+  box: BoundingBox;
+  confidence: number;
+}
+
+// One recognized word and how sure the engine is of it, from 0 to 1
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  box: BoundingBox;
+}
+
+// A block is a column, heading, caption or footnote that the recognizer saw as one unit
+export interface OcrBlock {
+  id: string;
+  page: number;
+  text: string;
+  box: BoundingBox;
+  paragraphs: OcrParagraph[];
+}
+
+export interface VisionUsage {
+  daily: number;
+  monthly: number;
+  dailyLimit: number;
+  monthlyLimit: number;
+}
+
+export interface VisionResponse {
+  text: string;
+  // Only in document mode, in the recognizer's reading order
+  blocks?: OcrBlock[];
+  // In reading order, when the engine reports how sure it is of each word
+  words?: OcrWord[];
+  // Which OCR engine read the image, e.g. "tesseract"
+  provider?: string;
+  usage?: VisionUsage;
+}
+
+// Images per batch request; longer queues are sent in several requests
+export const VISION_BATCH_SIZE = 10;
+
+// /api/vision's reply to { images: [...] }: one result per image, in the order sent
+export interface VisionBatchResponse {
+  results: Array<Pick<VisionResponse, 'text' | 'blocks'> & { error?: string }>;
+  provider: string;
+  usage: VisionUsage;
+}
+
+// The chosen blocks' text in the chosen order, a blank line between blocks
+export const joinBlocks = (blocks: OcrBlock[], blockIds: string[]) =>
+  blockIds
+    .map(id => blocks.find(block => block.id === id)?.text ?? '')
+    .filter(Boolean)
+    .join('\n\n');
+
+// The words inside the chosen blocks, block by block in the chosen order
+export const wordsInBlocks = (words: OcrWord[], blocks: OcrBlock[], blockIds: string[]) =>
+  blockIds.flatMap(id => {
+    const block = blocks.find(candidate => candidate.id === id);
+    if (!block) return [];
+    const { box } = block;
+    return words.filter(word => {
+      const centerX = word.box.x + word.box.width / 2;
+      const centerY = word.box.y + word.box.height / 2;
+      return centerX >= box.x && centerX <= box.x + box.width && centerY >= box.y && centerY <= box.y + box.height;
+    });
+  });
+
+// A whole /api/vision request that failed, with the server's reason and the usage it reported
+export class VisionRequestError extends Error {
+  constructor(message: string, public usage?: VisionUsage) {
+    super(message);
+    this.name = 'VisionRequestError';
+  }
+}
+
+// Sends up to VISION_BATCH_SIZE images in one request
+export const requestVisionBatch = async (images: string[], mode: OcrMode): Promise<VisionBatchResponse> => {
+  const response = await fetch('/api/vision', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ images, mode }),
+  });
+  const data: Partial<VisionBatchResponse> & { error?: string } = await response.json().catch(() => ({}));
+  if (!response.ok || !data.results || !data.usage) {
+    throw new VisionRequestError(data.error || 'Failed to extract text from image.', data.usage);
+  }
+  return data as VisionBatchResponse;
+};
@@ -0,0 +1,90 @@
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { Locator } from '@/components/research-organizer/types';
+import type { BoundingBox } from '@/lib/ocr';
+
+// Pages are drawn at twice their size in points, sharp enough for OCR
+const RENDER_SCALE = 2;
+
+// A page with fewer characters than this in its text layer is taken to be a scan
+const MIN_TEXT_LAYER_CHARACTERS = 20;
+
+// pdf.js is large and browser-only, so it is loaded the first time a PDF is opened
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  return pdfjs;
+};
+
+export const openPdf = async (file: File): Promise<PDFDocumentProxy> => {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+const isTextItem = (item: object): item is TextItem => 'str' in item;
+
+const joinTextItems = (items: TextItem[]) =>
+  items
+    .map(item => item.str + (item.hasEOL ? '\n' : ''))
+    .join('')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const pageTextItems = async (page: PDFPageProxy) =>
+  (await page.getTextContent()).items.filter(isTextItem);
+
+// The page's embedded text, empty for a scan without a text layer
+export const readPageText = async (page: PDFPageProxy) => joinTextItems(await pageTextItems(page));
+
+export const hasTextLayer = (text: string) => text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARACTERS;
+
+// Where a text item starts, as fractions of the rendered page
+const itemPosition = (item: TextItem, viewport: PageViewport) => {
+  const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+  return { x: x / viewport.width, y: y / viewport.height };
+};
+
+// The embedded text that starts inside a region of the page
+export const readRegionText = async (page: PDFPageProxy, region: BoundingBox) => {
+  const viewport = page.getViewport({ scale: 1 });
+  const inside = (await pageTextItems(page)).filter(item => {
+    const { x, y } = itemPosition(item, viewport);
+    return x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height;
+  });
+  return joinTextItems(inside);
+};
+
+// Draws a page to a JPEG data URL, for showing and for sending to /api/vision
+export const renderPage = async (page: PDFPageProxy) => {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  return canvas.toDataURL('image/jpeg');
+};
+
+/**
+ * The locator for text taken from the given PDF pages: "4" for one page,
+ * "4-6" for a run, and "4-6, 9" when the pages aren't consecutive.
+ */
+export const pdfPageLocator = (pageNumbers: number[]): Locator | null => {
+  const pages = [...new Set(pageNumbers)].sort((a, b) => a - b);
+  if (pages.length === 0) return null;
+  if (pages.length === 1) return { type: 'page', value: String(pages[0]) };
+
+  const runs: string[] = [];
+  let start = pages[0];
+  pages.forEach((page, index) => {
+    const next = pages[index + 1];
+    if (next === page + 1) return;
+    runs.push(start === page ? String(page) : `${start}-${page}`);
+    start = next;
+  });
+  return { type: 'pages', value: runs.join(', ') };
+};
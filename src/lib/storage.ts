@@ -0,0 +1,118 @@
+// Async key-value storage backed by IndexedDB, with localStorage as a fallback
+// for browsers (or private modes) where IndexedDB is unavailable.
+
+export interface KeyValueStore {
+  readonly kind: 'indexeddb' | 'localstorage';
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'cozy-research';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+// Browsers that don't implement navigator.storage.estimate get the usual localStorage allowance
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDBStore = (db: IDBDatabase): KeyValueStore => {
+  const objectStore = (mode: IDBTransactionMode) =>
+    db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    kind: 'indexeddb',
+    get: async <T>(key: string) =>
+      (await promisifyRequest(objectStore('readonly').get(key))) as T | undefined,
+    set: async (key, value) => {
+      await promisifyRequest(objectStore('readwrite').put(value, key));
+    },
+    remove: async (key) => {
+      await promisifyRequest(objectStore('readwrite').delete(key));
+    },
+    keys: async () =>
+      (await promisifyRequest(objectStore('readonly').getAllKeys())).map(String)
+  };
+};
+
+const createLocalStorageStore = (): KeyValueStore => ({
+  kind: 'localstorage',
+  get: async <T>(key: string) => {
+    const saved = localStorage.getItem(key);
+    return saved === null ? undefined : JSON.parse(saved) as T;
+  },
+  set: async (key, value) => {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  remove: async (key) => {
+    localStorage.removeItem(key);
+  },
+  keys: async () =>
+    Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+      .filter((key): key is string => key !== null)
+});
+
+let storePromise: Promise<KeyValueStore> | null = null;
+
+/**
+ * Returns the shared store, opening IndexedDB on first use and falling back
+ * to localStorage if it can't be opened.
+ */
+export const getStore = (): Promise<KeyValueStore> => {
+  if (!storePromise) {
+    storePromise = (async () => {
+      if (typeof indexedDB === 'undefined') return createLocalStorageStore();
+      try {
+        return createIndexedDBStore(await openDatabase());
+      } catch (error) {
+        console.error('IndexedDB unavailable, falling back to localStorage:', error);
+        return createLocalStorageStore();
+      }
+    })();
+  }
+  return storePromise;
+};
+
+const localStorageSize = () => {
+  let size = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key) size += new Blob([key + (localStorage.getItem(key) || '')]).size;
+  }
+  return size;
+};
+
+/**
+ * Reports how many bytes the origin is using and how many it may use.
+ * Uses navigator.storage.estimate where available; for the localStorage
+ * fallback the quota is the browser's fixed localStorage allowance.
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate> => {
+  const store = await getStore();
+  if (store.kind === 'indexeddb' && navigator.storage?.estimate) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    if (quota > 0) return { usage, quota };
+  }
+  return { usage: localStorageSize(), quota: LOCAL_STORAGE_QUOTA };
+};
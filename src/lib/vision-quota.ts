@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { VisionUsage } from '@/lib/ocr';
+
+// The counts for one client, one address or the whole server. A count belongs
+// to the day or month it was made in, so it starts again at 0 whenever the
+// current period differs, restarts or not.
+interface QuotaRecord {
+  day: string;
+  daily: number;
+  month: string;
+  monthly: number;
+}
+
+type QuotaStore = Record<string, QuotaRecord>;
+
+// Who a request counts against: the browser, by its cookie, and the address it came from when known
+export interface QuotaKeys {
+  clientId: string;
+  ip: string | null;
+}
+
+export interface QuotaStatus {
+  // The browser's own counts, which are what the extractor shows
+  usage: VisionUsage;
+  // Why another request can't be made right now, or null if it can
+  exceeded: string | null;
+}
+
+const DEFAULT_QUOTA_FILE = '.data/vision-quota.json';
+const DEFAULT_DAILY_LIMIT = 100;
+const DEFAULT_MONTHLY_LIMIT = 1000;
+// A new cookie is all it takes to get a fresh browser quota, so addresses and
+// the whole server have limits of their own that a caller can't reset
+const DEFAULT_IP_DAILY_LIMIT = 300;
+const DEFAULT_IP_MONTHLY_LIMIT = 3000;
+const DEFAULT_GLOBAL_DAILY_LIMIT = 1000;
+const DEFAULT_GLOBAL_MONTHLY_LIMIT = 10000;
+
+// Client ids are UUIDs, so these can't clash with them
+const GLOBAL_KEY = '*';
+const ipKey = (ip: string) => `ip:${ip}`;
+
+const quotaFile = () => path.resolve(process.env.VISION_QUOTA_FILE || DEFAULT_QUOTA_FILE);
+
+const limitFromEnv = (value: string | undefined, fallback: number) => {
+  const limit = Number(value);
+  return value && Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+};
+
+// Per-client limits, from VISION_DAILY_LIMIT and VISION_MONTHLY_LIMIT
+export const quotaLimits = () => ({
+  dailyLimit: limitFromEnv(process.env.VISION_DAILY_LIMIT, DEFAULT_DAILY_LIMIT),
+  monthlyLimit: limitFromEnv(process.env.VISION_MONTHLY_LIMIT, DEFAULT_MONTHLY_LIMIT)
+});
+
+// Per-address limits, from VISION_IP_DAILY_LIMIT and VISION_IP_MONTHLY_LIMIT
+const ipLimits = () => ({
+  dailyLimit: limitFromEnv(process.env.VISION_IP_DAILY_LIMIT, DEFAULT_IP_DAILY_LIMIT),
+  monthlyLimit: limitFromEnv(process.env.VISION_IP_MONTHLY_LIMIT, DEFAULT_IP_MONTHLY_LIMIT)
+});
+
+// Limits for everyone together, from VISION_GLOBAL_DAILY_LIMIT and VISION_GLOBAL_MONTHLY_LIMIT
+const globalLimits = () => ({
+  dailyLimit: limitFromEnv(process.env.VISION_GLOBAL_DAILY_LIMIT, DEFAULT_GLOBAL_DAILY_LIMIT),
+  monthlyLimit: limitFromEnv(process.env.VISION_GLOBAL_MONTHLY_LIMIT, DEFAULT_GLOBAL_MONTHLY_LIMIT)
+});
+
+// Periods are UTC calendar days and months: "2024-03-05" and "2024-03"
+const currentPeriods = (now: Date) => {
+  const day = now.toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+};
+
+const isQuotaStore = (value: unknown): value is QuotaStore =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The saved counts, or none before the first is saved. A file that can't be
+ * read fails the request, since carrying on would reset everyone's usage; one
+ * that isn't a valid store is moved aside, so one bad write can't block every
+ * request until someone deletes it by hand.
+ */
+const readStore = async (): Promise<QuotaStore> => {
+  const file = quotaFile();
+  let contents: string;
+  try {
+    contents = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+  try {
+    const store: unknown = JSON.parse(contents);
+    if (isQuotaStore(store)) return store;
+  } catch {
+    // Moved aside below, like any other store that can't be used
+  }
+  const aside = `${file}.${Date.now()}.corrupt`;
+  console.error(`Vision quota file is not valid; moving it to ${aside} and starting over`);
+  await fs.rename(file, aside);
+  return {};
+};
+
+// Written to a temporary file and renamed, so a crash mid-write can't leave half a file
+const writeStore = async (store: QuotaStore) => {
+  const file = quotaFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  try {
+    await fs.writeFile(temporary, JSON.stringify(store));
+    await fs.rename(temporary, file);
+  } catch (error) {
+    await fs.rm(temporary, { force: true });
+    throw error;
+  }
+};
+
+// Reads and writes one at a time, so concurrent requests don't lose counts
+let queue: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const usageFor = (
+  record: QuotaRecord | undefined,
+  now: Date,
+  limits: Pick<VisionUsage, 'dailyLimit' | 'monthlyLimit'> = quotaLimits()
+): VisionUsage => {
+  const { day, month } = currentPeriods(now);
+  return {
+    daily: record?.day === day ? record.daily : 0,
+    monthly: record?.month === month ? record.monthly : 0,
+    ...limits
+  };
+};
+
+// Why a client can't make another request right now, or null if it can
+export const quotaExceeded = (usage: VisionUsage) => {
+  if (usage.daily >= usage.dailyLimit) return 'Daily usage limit reached. Please try again tomorrow.';
+  if (usage.monthly >= usage.monthlyLimit) return 'Monthly usage limit reached.';
+  return null;
+};
+
+const isAtLimit = (usage: VisionUsage) => usage.daily >= usage.dailyLimit || usage.monthly >= usage.monthlyLimit;
+
+const statusFor = (store: QuotaStore, { clientId, ip }: QuotaKeys, now: Date): QuotaStatus => {
+  const usage = usageFor(store[clientId], now);
+  let exceeded = quotaExceeded(usage);
+  if (!exceeded && ip && isAtLimit(usageFor(store[ipKey(ip)], now, ipLimits()))) {
+    exceeded = 'Too many extractions from this network. Please try again later.';
+  }
+  if (!exceeded && isAtLimit(usageFor(store[GLOBAL_KEY], now, globalLimits()))) {
+    exceeded = 'The text extraction service has reached its usage limit. Please try again later.';
+  }
+  return { usage, exceeded };
+};
+
+export const getQuotaStatus = (keys: QuotaKeys, now = new Date()) =>
+  serialized(async () => statusFor(await readStore(), keys, now));
+
+/**
+ * Counts one request against the client, its address and the server, and
+ * returns the client's new status. Records from before the current month
+ * count for nothing any more, so they are dropped to keep the file small.
+ */
+export const recordUsage = (keys: QuotaKeys, now = new Date()) =>
+  serialized(async () => {
+    const { day, month } = currentPeriods(now);
+    const store = Object.fromEntries(
+      Object.entries(await readStore()).filter(([, record]) => record.month === month)
+    );
+    const countedKeys = [keys.clientId, GLOBAL_KEY, ...(keys.ip ? [ipKey(keys.ip)] : [])];
+    countedKeys.forEach(key => {
+      const usage = usageFor(store[key], now);
+      store[key] = { day, daily: usage.daily + 1, month, monthly: usage.monthly + 1 };
+    });
+    await writeStore(store);
+    return statusFor(store, keys, now);
+  });